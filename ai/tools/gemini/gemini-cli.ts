@@ -8,14 +8,55 @@
  *
  * Usage:
  *   ./gemini chat "What is Bitcoin?"          - Simple chat
+ *   ./gemini chat "Explain halving" --stream  - Print the answer as it arrives
  *   ./gemini analyze BTC "news summary"       - Analyze sentiment
+ *   ./gemini analyze BTC -n "..." -s btc      - Analyze, then keep asking in session "btc"
+ *   ./gemini chat "why high risk?" -s btc     - Follow-up question in a saved session
  *   ./gemini research BTC "perplexity output" - Analyze Perplexity research
+ *   ./perplexity crypto BTC | ./gemini research BTC -   - Pipe research in ('-' = stdin)
+ *   ./gemini research BTC --from-perplexity btc.json    - Saved Perplexity JSON, keeping citations
+ *   ./gemini analyze BTC -n @news.txt         - Read any text argument from a file
+ *   ./gemini analyze BTC --auto-market-data   - Add price action and indicators from Binance daily candles
+ *   ./gemini analyze ETH --auto-market-data --market-source data/prices - ... or from local CSV candles
+ *   ./gemini investigate BTC                  - Let Gemini fetch Perplexity research itself
+ *   ./gemini chart BTC --image chart.png      - Analyze a chart screenshot
+ *   ./gemini usage --by command               - Show token usage and cost
+ *
+ * Signals from analyze, research, chart and investigate are recorded in
+ * .ai-tools/signals.jsonl (see ./signals query); -o appends a copy to another
+ * file, written first so a store problem only gives a warning.
  */
 
 import { Command } from "commander";
 import chalk from "chalk";
-import { writeFileSync, existsSync, readFileSync } from "node:fs";
-import { createGeminiClient } from "./gemini-client";
+import { existsSync, readFileSync } from "node:fs";
+import {
+  BlockedResponseError,
+  createGeminiClient,
+  EmptyResponseError,
+  GeminiClient,
+  GeminiMessage,
+  GeminiModel,
+  GeminiReply,
+  MarketData,
+  SentimentAnalysis,
+  sentimentToHistory,
+  ToolCallRecord,
+  TruncatedResponseError,
+} from "./gemini-client";
+import { AuthError, BudgetExceededError, NetworkError, RateLimitError, ServerError } from "../shared/errors";
+import { redactSecrets } from "../shared/redact";
+import { SchemaValidationError } from "../shared/schema";
+import { UsageLedger, usageReport } from "../shared/usage-ledger";
+import { SessionStore } from "../shared/session-store";
+import { Signal, toSignal } from "../shared/signal";
+import { recordSignals } from "../shared/signal-store";
+import { ResponseCache } from "../shared/response-cache";
+import { createPerplexityClient } from "../perplexity/perplexity-client";
+import { describeMarket, isExchange, loadMarketCandles, MarketDataError } from "../market-data/market-data";
+import { PriceDataError } from "../shared/ohlcv";
+import { createResearchTools } from "./research-tools";
+import { loadPerplexityResearch } from "./perplexity-input";
 
 // ============================================================================
 // CLI Setup
@@ -23,6 +64,9 @@ import { createGeminiClient } from "./gemini-client";
 
 const program = new Command();
 
+/** Model for chat and new sessions unless -m is given */
+const DEFAULT_CHAT_MODEL = "gemini-3-flash-preview";
+
 program
   .name("gemini")
   .description("Gemini AI sentiment analysis tool for trading")
@@ -35,24 +79,74 @@ program
 /**
  * Simple chat command
  * Sends a prompt to Gemini and displays the response.
+ * With --session the conversation is saved and earlier turns are sent as context.
  */
 program
   .command("chat <prompt>")
-  .description("Chat with Gemini")
-  .option("-m, --model <model>", "Model to use (gemini-3-flash-preview, gemini-3-pro-preview, gemini-2.5-flash)", "gemini-3-flash-preview")
-  .action(async (prompt: string, options: { model: string }) => {
+  .description("Chat with Gemini (prompt: text, '-' for stdin or @file)")
+  .option("-m, --model <model>", "Model to use (gemini-3-flash-preview, gemini-3-pro-preview, gemini-2.5-flash; sessions keep their model)")
+  .option("-s, --session <name>", "Continue (or start) a saved conversation")
+  .option("--max-history-tokens <n>", "History sent per question in a session", "8000")
+  .option("--stream", "Print the answer as it is generated")
+  .action(async (prompt: string, options: { model?: string; session?: string; maxHistoryTokens: string; stream?: boolean }) => {
     try {
-      const client = createGeminiClient();
-      console.log(chalk.dim(`Chatting with ${options.model}...`));
+      const maxHistoryTokens = parsePositiveInt(options.maxHistoryTokens, "--max-history-tokens");
+      prompt = readTextArg(prompt)!;
+      const client = createClient("chat");
+      const onDelta = options.stream ? startStreaming() : undefined;
+
+      if (!options.session) {
+        const model = options.model || DEFAULT_CHAT_MODEL;
+        console.log(chalk.dim(`Chatting with ${model}...`));
+
+        const reply = await client.chat(prompt, model as GeminiModel, onDelta);
+        printReply(reply, options.stream);
+        return;
+      }
+
+      const store = new SessionStore<GeminiMessage>("gemini");
+      const session = store.load(options.session) || store.create(options.session, DEFAULT_CHAT_MODEL);
+      if (options.model) {
+        session.model = options.model;
+      }
 
-      const response = await client.chat(prompt, options.model as any);
+      const turns = session.messages.filter((m) => m.role === "user").length;
+      console.log(chalk.dim(`Chatting with ${session.model} in session ${session.name} (${turns} earlier turns)...`));
 
-      console.log(chalk.bold("\nResponse:"));
-      console.log(response);
+      const turn = await client.converse(session.messages, prompt, {
+        model: session.model as GeminiModel,
+        maxHistoryTokens,
+        onDelta,
+      });
+
+      // Only saved once the reply has arrived, so a failed call can be retried
+      session.messages = turn.history;
+      store.save(session);
+
+      printReply(turn.reply, options.stream);
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+/**
+ * Sessions command
+ * Lists saved chat sessions.
+ */
+program
+  .command("sessions")
+  .description("List saved chat sessions")
+  .action(() => {
+    const sessions = new SessionStore<GeminiMessage>("gemini").list();
+    if (sessions.length === 0) {
+      console.log(chalk.dim("No saved sessions."));
+      return;
     }
+
+    console.log(chalk.bold("Saved sessions:"));
+    sessions.forEach((s) =>
+      console.log(`  ${s.name.padEnd(24)} ${chalk.dim(`${s.model}, ${s.messages} messages, updated ${s.updated_at.slice(0, 16).replace("T", " ")}`)}`)
+    );
   });
 
 /**
@@ -62,46 +156,60 @@ program
 program
   .command("analyze <symbol>")
   .description("Analyze market sentiment for a cryptocurrency")
-  .option("-n, --news <text>", "Recent news to analyze")
-  .option("-p, --price <text>", "Price action description")
-  .option("-i, --indicators <text>", "Technical indicators")
-  .option("-o, --output <file>", "Save JSON to file (appends to existing)")
-  .action(async (symbol: string, options: { news?: string; price?: string; indicators?: string; output?: string }) => {
+  .option("-n, --news <text>", "Recent news to analyze ('-' for stdin, @file)")
+  .option("-p, --price <text>", "Price action description ('-' for stdin, @file)")
+  .option("-i, --indicators <text>", "Technical indicators ('-' for stdin, @file)")
+  .option("--auto-market-data", "Compute price action and indicators from recent candles (added before -p/-i)")
+  .option("--market-source <source>", "Candles for --auto-market-data: exchange name, CSV file or directory", "binance")
+  .option("--interval <interval>", "Candle interval for --auto-market-data from an exchange", "1d")
+  .option("-o, --output <file>", "Also append the signal to this JSONL file")
+  .option("-s, --session <name>", "Save the analysis to a chat session for follow-up questions")
+  .action(async (symbol: string, options: {
+    news?: string;
+    price?: string;
+    indicators?: string;
+    autoMarketData?: boolean;
+    marketSource: string;
+    interval: string;
+    output?: string;
+    session?: string;
+  }) => {
     try {
-      const client = createGeminiClient();
-      console.log(chalk.dim(`Analyzing sentiment for ${symbol.toUpperCase()}...`));
-
-      const result = await client.analyzeSentiment(symbol.toUpperCase(), {
-        news: options.news,
-        price_action: options.price,
-        indicators: options.indicators,
-      });
+      const client = createClient("analyze");
+
+      const marketData: MarketData = {
+        news: readTextArg(options.news),
+        price_action: readTextArg(options.price),
+        indicators: readTextArg(options.indicators),
+      };
+      if (options.autoMarketData) {
+        console.log(chalk.dim(`Loading ${symbol.toUpperCase()} candles from ${options.marketSource}...`));
+        const candles = await loadMarketCandles(symbol, { source: options.marketSource, interval: options.interval });
+        const computed = describeMarket(symbol, candles, isExchange(options.marketSource) ? options.interval : undefined);
+
+        // Typed-in descriptions are kept after the computed numbers
+        marketData.price_action = [computed.price_action, marketData.price_action].filter(Boolean).join("\n");
+        marketData.indicators = [computed.indicators, marketData.indicators].filter(Boolean).join("\n");
+        console.log(chalk.dim(`\n${marketData.price_action}\n${marketData.indicators}\n`));
+      }
 
-      // Display results with color-coded sentiment
-      const sentimentColor = getSentimentColor(result.sentiment);
+      console.log(chalk.dim(`Analyzing sentiment for ${symbol.toUpperCase()}...`));
+      const result = await client.analyzeSentiment(symbol.toUpperCase(), marketData);
 
-      console.log(chalk.bold(`\n${symbol.toUpperCase()} Sentiment Analysis:`));
-      console.log(`  Sentiment: ${sentimentColor(result.sentiment.toUpperCase())}`);
-      console.log(`  Confidence: ${(result.confidence * 100).toFixed(0)}%`);
-      console.log(`  Recommendation: ${getRecommendationColor(result.recommendation)(result.recommendation.toUpperCase())}`);
-      console.log(`  Risk Level: ${getRiskColor(result.risk_level)(result.risk_level.toUpperCase())}`);
-      console.log(`  Reasoning: ${result.reasoning}`);
+      printAnalysis(`${symbol.toUpperCase()} Sentiment Analysis`, result);
 
-      if (result.key_points.length > 0) {
-        console.log(chalk.bold("\nKey Points:"));
-        result.key_points.forEach((p, i) => console.log(`  ${i + 1}. ${p}`));
+      // Record the signal (and save a copy to --output, if given)
+      const signal = saveSignal(result, options.output);
+      if (!options.output) {
+        console.log(chalk.bold("\nJSON Output:"));
+        console.log(JSON.stringify(signal, null, 2));
       }
 
-      // Save to file if --output specified
-      if (options.output) {
-        saveToFile(options.output, result);
-      } else {
-        console.log(chalk.bold("\nJSON Output:"));
-        console.log(JSON.stringify(result, null, 2));
+      if (options.session) {
+        saveToSession(options.session, symbol.toUpperCase(), marketData, result);
       }
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -110,41 +218,170 @@ program
  * Takes Perplexity research output and produces trading signals.
  */
 program
-  .command("research <symbol> <research>")
-  .description("Analyze Perplexity research output for trading signals")
-  .option("-o, --output <file>", "Save JSON to file (appends to existing)")
-  .action(async (symbol: string, research: string, options: { output?: string }) => {
+  .command("research <symbol> [research]")
+  .description("Analyze Perplexity research output for trading signals (research: text, '-' for stdin or @file)")
+  .option("-f, --from-perplexity <file>", "Read saved Perplexity JSON (crypto/news/search -o, sentiment -o), keeping its citations")
+  .option("-o, --output <file>", "Also append the signal to this JSONL file")
+  .option("-s, --session <name>", "Save the analysis to a chat session for follow-up questions")
+  .option("--max-input-tokens <n>", "Summarise research longer than this in chunks first", "12000")
+  .action(async (symbol: string, researchArg: string | undefined, options: { fromPerplexity?: string; output?: string; session?: string; maxInputTokens: string }) => {
     try {
-      const client = createGeminiClient();
+      const maxInputTokens = parsePositiveInt(options.maxInputTokens, "--max-input-tokens");
+      const imported = options.fromPerplexity ? loadPerplexityResearch(options.fromPerplexity, symbol) : undefined;
+      const research = [readTextArg(researchArg), imported?.research].filter(Boolean).join("\n\n");
+      if (!research) {
+        throw new Error("Pass research text, '-' for stdin, @file or --from-perplexity <file>");
+      }
+
+      const client = createClient("research");
       console.log(chalk.dim(`Analyzing research for ${symbol.toUpperCase()}...`));
+      if (imported) {
+        console.log(chalk.dim(`Using ${imported.items} Perplexity entr${imported.items === 1 ? "y" : "ies"} with ${imported.citations.length} sources from ${options.fromPerplexity}`));
+      }
+
+      const result = await client.analyzeResearch(symbol.toUpperCase(), research, {
+        citations: imported?.citations,
+        maxInputTokens,
+        onReduce: ({ input_tokens, max_input_tokens, chunks }) =>
+          console.warn(chalk.yellow(`⚠ Research is ${input_tokens} tokens (limit ${max_input_tokens}) - summarising ${chunks} chunks first`)),
+      });
+
+      printAnalysis(`${symbol.toUpperCase()} Research Analysis`, result, [
+        `Input: ${result.input_tokens} tokens, ${result.reduction
+          ? chalk.yellow(`reduced - ${result.reduction.chunks} chunk summaries (~${result.reduction.summary_tokens} tokens) analysed`)
+          : "analysed in full"}`,
+      ]);
+
+      if (result.citations && result.citations.length > 0) {
+        console.log(chalk.bold("\nSources (from Perplexity):"));
+        result.citations.forEach((c, i) => console.log(`  ${i + 1}. ${c.domain} ${chalk.dim(`(${c.tier} tier) ${c.url}`)}`));
+      }
+
+      // Record the signal (and save a copy to --output, if given)
+      const signal = saveSignal(result, options.output);
+      if (!options.output) {
+        console.log(chalk.bold("\nJSON Output:"));
+        console.log(JSON.stringify(signal, null, 2));
+      }
 
-      const result = await client.analyzeResearch(symbol.toUpperCase(), research);
+      if (options.session) {
+        saveToSession(options.session, symbol.toUpperCase(), { news: research }, result);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
 
-      // Display results
-      const sentimentColor = getSentimentColor(result.sentiment);
+/**
+ * Chart analysis command
+ * Sends a chart image (plus optional market data) and returns sentiment
+ * with the patterns and support/resistance levels Gemini sees.
+ */
+program
+  .command("chart <symbol>")
+  .description("Analyze a chart image (PNG, JPEG or WebP screenshot)")
+  .requiredOption("--image <file>", "Chart image file (max 14 MB)")
+  .option("-m, --model <model>", "Model to use (gemini-3-flash-preview, gemini-3-pro-preview)", "gemini-3-flash-preview")
+  .option("-n, --news <text>", "Recent news for context ('-' for stdin, @file)")
+  .option("-p, --price <text>", "Price action description ('-' for stdin, @file)")
+  .option("-i, --indicators <text>", "Technical indicators ('-' for stdin, @file)")
+  .option("-o, --output <file>", "Also append the signal to this JSONL file")
+  .action(async (symbol: string, options: { image: string; model: string; news?: string; price?: string; indicators?: string; output?: string }) => {
+    try {
+      const client = createClient("chart");
+      console.log(chalk.dim(`Analyzing ${options.image} for ${symbol.toUpperCase()}...`));
+
+      const result = await client.analyzeChart(symbol.toUpperCase(), options.image, {
+        news: readTextArg(options.news),
+        price_action: readTextArg(options.price),
+        indicators: readTextArg(options.indicators),
+      }, { model: options.model as GeminiModel });
+
+      printAnalysis(`${symbol.toUpperCase()} Chart Analysis`, result, [
+        `Patterns: ${result.patterns.length > 0 ? result.patterns.join(", ") : chalk.dim("none")}`,
+        `Support: ${result.support_levels.length > 0 ? chalk.green(result.support_levels.join(", ")) : chalk.dim("not readable")}`,
+        `Resistance: ${result.resistance_levels.length > 0 ? chalk.red(result.resistance_levels.join(", ")) : chalk.dim("not readable")}`,
+      ]);
+
+      // Record the signal (and save a copy to --output, if given)
+      const signal = saveSignal(result, options.output);
+      if (!options.output) {
+        console.log(chalk.bold("\nJSON Output:"));
+        console.log(JSON.stringify(signal, null, 2));
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
 
-      console.log(chalk.bold(`\n${symbol.toUpperCase()} Research Analysis:`));
-      console.log(`  Sentiment: ${sentimentColor(result.sentiment.toUpperCase())}`);
-      console.log(`  Confidence: ${(result.confidence * 100).toFixed(0)}%`);
-      console.log(`  Recommendation: ${getRecommendationColor(result.recommendation)(result.recommendation.toUpperCase())}`);
-      console.log(`  Risk Level: ${getRiskColor(result.risk_level)(result.risk_level.toUpperCase())}`);
-      console.log(`  Reasoning: ${result.reasoning}`);
+/**
+ * Investigate command
+ * Gemini calls Perplexity research tools as it sees fit, then returns
+ * a sentiment analysis. The tool calls it made are listed.
+ */
+program
+  .command("investigate <symbol>")
+  .description("Let Gemini fetch Perplexity research itself, then analyze sentiment")
+  .option("-t, --max-tool-calls <n>", "Most research calls Gemini may make", "4")
+  .option("-o, --output <file>", "Also append the signal to this JSONL file")
+  .action(async (symbol: string, options: { maxToolCalls: string; output?: string }) => {
+    try {
+      const maxToolCalls = parsePositiveInt(options.maxToolCalls, "--max-tool-calls");
+      const client = createClient("investigate");
+      const tools = createResearchTools(createPerplexityClient(undefined, {
+        cache: new ResponseCache("perplexity"),
+        ledger: new UsageLedger({ command: "gemini investigate" }),
+      }));
+      console.log(chalk.dim(`Investigating ${symbol.toUpperCase()} (up to ${maxToolCalls} research calls)...`));
+
+      const { analysis: result, tool_calls } = await client.investigate(symbol.toUpperCase(), tools, {
+        maxToolCalls,
+        onToolCall: (call) => console.log(chalk.dim(`  → ${formatToolCall(call)}`)),
+      });
 
-      if (result.key_points.length > 0) {
-        console.log(chalk.bold("\nKey Points:"));
-        result.key_points.forEach((p, i) => console.log(`  ${i + 1}. ${p}`));
+      console.log(chalk.bold("\nTool Calls:"));
+      if (tool_calls.length === 0) {
+        console.log(chalk.dim("  (none - answered from the model's own knowledge)"));
       }
+      tool_calls.forEach((call, i) => console.log(`  ${i + 1}. ${formatToolCall(call)}`));
 
-      // Save to file if --output specified
-      if (options.output) {
-        saveToFile(options.output, result);
-      } else {
+      printAnalysis(`${symbol.toUpperCase()} Investigation`, result);
+
+      // Keep the calls with the signal so it's clear what research it was based on
+      const signal = saveSignal({ ...result, tool_calls }, options.output);
+      if (!options.output) {
         console.log(chalk.bold("\nJSON Output:"));
-        console.log(JSON.stringify(result, null, 2));
+        console.log(JSON.stringify(signal, null, 2));
       }
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+/**
+ * Usage report command
+ * Summarises the shared token/cost ledger (Perplexity and Gemini calls).
+ */
+program
+  .command("usage")
+  .description("Show token usage and cost across providers")
+  .option("-b, --by <group>", "Group by day, model, command or provider", "day")
+  .option("--since <date>", "Only include calls on or after this date (YYYY-MM-DD or ISO time)")
+  .action((options: { by: string; since?: string }) => {
+    try {
+      const report = usageReport(options.by, options.since);
+      if (report.table.length === 0) {
+        console.log(chalk.dim("No usage recorded yet."));
+        return;
+      }
+
+      console.log(chalk.bold(report.heading));
+      report.table.forEach((line) => console.log(`  ${line}`));
+      if (report.budget.length > 0) {
+        console.log(chalk.dim(`\n${report.budget.join("\n")}`));
+      }
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -152,6 +389,15 @@ program
 // Helper Functions
 // ============================================================================
 
+/**
+ * Create a client that records usage under the given command name
+ */
+function createClient(command: string): GeminiClient {
+  return createGeminiClient(undefined, {
+    ledger: new UsageLedger({ command: `gemini ${command}` }),
+  });
+}
+
 /**
  * Get chalk color function based on sentiment
  */
@@ -194,32 +440,180 @@ function getRiskColor(risk: string) {
   }
 }
 
+/** Set once an argument has consumed stdin */
+let stdinUsed = false;
+
 /**
- * Save analysis result to JSON file
- * Appends to existing array if file exists.
+ * Resolve a text argument: '-' reads stdin, '@file' reads a file,
+ * anything else is used as-is
  */
-function saveToFile(filepath: string, data: any) {
-  let signals: any[] = [];
+function readTextArg(value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
 
-  // Load existing signals if file exists
-  if (existsSync(filepath)) {
-    try {
-      const existing = readFileSync(filepath, "utf-8");
-      signals = JSON.parse(existing);
-      if (!Array.isArray(signals)) {
-        signals = [signals];
-      }
-    } catch {
-      signals = [];
+  if (value === "-") {
+    if (stdinUsed) {
+      throw new Error("Only one argument can read from stdin ('-')");
+    }
+    stdinUsed = true;
+    return readFileSync(0, "utf-8").trimEnd();
+  }
+
+  if (value.startsWith("@")) {
+    const file = value.slice(1);
+    if (!existsSync(file)) {
+      throw new Error(`File not found: ${file}`);
+    }
+    return readFileSync(file, "utf-8").trimEnd();
+  }
+
+  return value;
+}
+
+/**
+ * Print a sentiment analysis with color-coded fields
+ * `details` are extra lines for the command (e.g. chart patterns), shown before the key points.
+ */
+function printAnalysis(heading: string, result: SentimentAnalysis, details: string[] = []) {
+  console.log(chalk.bold(`\n${heading}:`));
+  console.log(`  Sentiment: ${getSentimentColor(result.sentiment)(result.sentiment.toUpperCase())}`);
+  console.log(`  Confidence: ${(result.confidence * 100).toFixed(0)}%`);
+  console.log(`  Recommendation: ${getRecommendationColor(result.recommendation)(result.recommendation.toUpperCase())}`);
+  console.log(`  Risk Level: ${getRiskColor(result.risk_level)(result.risk_level.toUpperCase())}`);
+  console.log(`  Reasoning: ${result.reasoning}`);
+  if (result.parse_status === "repaired") {
+    console.log(chalk.dim("  (valid after re-asking the model)"));
+  }
+  details.forEach((line) => console.log(`  ${line}`));
+
+  if (result.key_points.length > 0) {
+    console.log(chalk.bold("\nKey Points:"));
+    result.key_points.forEach((p, i) => console.log(`  ${i + 1}. ${p}`));
+  }
+}
+
+/**
+ * Parse a numeric option that must be a whole number >= 1
+ */
+function parsePositiveInt(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`${flag} must be a whole number >= 1 (got "${value}")`);
+  }
+  return n;
+}
+
+/**
+ * Returns an onDelta callback that prints the "Response:" header before
+ * the first chunk, then each chunk as it arrives
+ */
+function startStreaming(): (text: string) => void {
+  let started = false;
+  return (text) => {
+    if (!started) {
+      console.log(chalk.bold("\nResponse:"));
+      started = true;
     }
+    process.stdout.write(text);
+  };
+}
+
+/**
+ * Print a reply, warning when it was blocked, cut off or empty
+ * Exits with an error when there is no answer to show.
+ *
+ * @param streamed - The text was already printed chunk by chunk
+ */
+function printReply(reply: GeminiReply, streamed = false) {
+  if (streamed) {
+    if (reply.text) process.stdout.write("\n");
+  } else if (reply.text) {
+    console.log(chalk.bold("\nResponse:"));
+    console.log(reply.text);
+  }
+
+  switch (reply.outcome) {
+    case "truncated":
+      console.warn(chalk.yellow("\n⚠ Response cut off at the output token limit (MAX_TOKENS) - the answer is incomplete"));
+      break;
+    case "blocked":
+      console.error(chalk.red(`\n⚠ Blocked by Gemini safety filters (${reply.block_reason || reply.finish_reason}) - no answer was given`));
+      process.exit(1);
+    case "empty":
+      console.error(chalk.red(`\n⚠ Gemini returned no text (finish reason: ${reply.finish_reason || "none"})`));
+      process.exit(1);
+  }
+}
+
+/**
+ * One-line description of a tool call, e.g. search_news(topic="BTC ETF") ✓
+ */
+function formatToolCall(call: ToolCallRecord): string {
+  const args = Object.entries(call.args).map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(", ");
+  const status = call.status === "ok"
+    ? chalk.green("✓")
+    : call.status === "skipped" ? chalk.yellow("skipped (call limit reached)") : chalk.red(`✗ ${call.error}`);
+  return `${call.name}(${args}) ${status}`;
+}
+
+/**
+ * Print an error (with a hint for known API failures) and exit
+ */
+function exitWithError(error: unknown): never {
+  console.error(chalk.red("Error:"), redactSecrets(error instanceof Error ? error.message : String(error)));
+
+  if (error instanceof AuthError) {
+    console.error(chalk.dim("Hint: check GEMINI_API_KEY in .envrc or .ai-tools/config.json"));
+  } else if (error instanceof RateLimitError) {
+    console.error(chalk.dim("Hint: rate limited by Gemini (on every configured key) - wait a minute and try again"));
+  } else if (error instanceof ServerError || error instanceof NetworkError) {
+    console.error(chalk.dim("Hint: Gemini is unreachable or overloaded - try again later"));
+  } else if (error instanceof BlockedResponseError) {
+    console.error(chalk.dim("Hint: Gemini's safety filters refused this input - nothing was saved"));
+  } else if (error instanceof TruncatedResponseError) {
+    console.error(chalk.dim("Hint: the answer hit the output token limit - shorten the input or use a pro model"));
+  } else if (error instanceof EmptyResponseError) {
+    console.error(chalk.dim("Hint: Gemini returned nothing usable - try again"));
+  } else if (error instanceof SchemaValidationError) {
+    console.error(chalk.dim(`Raw output: ${error.raw.slice(0, 300)}`));
+    console.error(chalk.dim("Hint: nothing was saved - try again or use a stronger model"));
+  } else if (error instanceof BudgetExceededError) {
+    console.error(chalk.dim("Hint: raise AI_TOOLS_{DAILY,MONTHLY}_BUDGET_USD or check ./gemini usage"));
+  } else if (error instanceof MarketDataError || error instanceof PriceDataError) {
+    console.error(chalk.dim("Hint: check --market-source, or leave out --auto-market-data and pass -p/-i yourself"));
   }
 
-  // Append new signal
-  signals.push(data);
+  process.exit(1);
+}
+
+/**
+ * Append an analysis to a chat session so `chat --session` can follow up on it
+ */
+function saveToSession(name: string, symbol: string, marketData: MarketData, result: SentimentAnalysis) {
+  const store = new SessionStore<GeminiMessage>("gemini");
+  const session = store.load(name) || store.create(name, DEFAULT_CHAT_MODEL);
+
+  session.messages.push(...sentimentToHistory(symbol, marketData, result));
+  store.save(session);
+  console.log(chalk.green(`\n✓ Saved to session ${name} - ask follow-ups with ./gemini chat "..." -s ${name}`));
+}
+
+/**
+ * Record an analysis as a Signal in the signal store (.ai-tools/signals.jsonl)
+ * With --output, append it to that file first; a store failure is only a warning.
+ */
+function saveSignal(analysis: SentimentAnalysis & { tool_calls?: unknown }, filepath?: string): Signal {
+  const signal = toSignal(analysis, "gemini");
+  recordSignals([signal], {
+    output: filepath,
+    onStoreError: (error) => console.warn(chalk.yellow(`⚠ Not recorded in the signal store: ${error.message}`)),
+  });
 
-  // Write back to file
-  writeFileSync(filepath, JSON.stringify(signals, null, 2));
-  console.log(chalk.green(`\n✓ Saved to ${filepath} (${signals.length} signals total)`));
+  if (filepath) {
+    console.log(chalk.green(`\n✓ Saved to ${filepath}`));
+  }
+  return signal;
 }
 
 // ============================================================================
@@ -9,6 +9,52 @@
  * - gemini-1.5-pro: Better reasoning, more accurate
  * - gemini-2.0-flash-exp: Latest experimental model
  *
+ * Conversations:
+ * - converse() takes a GeminiMessage[] history and returns it with the new turns
+ * - Only the newest turns that fit in `maxHistoryTokens` are sent
+ *
+ * Usage tracking (optional):
+ * - Pass a UsageLedger to record tokens and cost of every call
+ * - Calls are refused with BudgetExceededError once the ledger's budget is used up
+ *
+ * Streaming:
+ * - generateStream() yields text chunks from `:streamGenerateContent` and
+ *   resolves the combined response (finish reason, usage) at the end
+ * - chat() and converse() stream when given an `onDelta` callback
+ *
+ * Response outcomes:
+ * - readReply() joins every text part and classifies the response as
+ *   ok, truncated (MAX_TOKENS), blocked (safety/prompt feedback) or empty
+ * - chat() and converse() return the outcome; analyzeSentiment() and
+ *   investigate() throw BlockedResponseError, TruncatedResponseError or
+ *   EmptyResponseError instead of guessing a signal
+ *
+ * Long research:
+ * - countTokens() asks Gemini for the exact input size
+ * - analyzeResearch() map-reduces research over `maxInputTokens`: chunks are
+ *   summarised, then the summaries analysed
+ *
+ * Images:
+ * - imagePart() reads a PNG/JPEG/WebP (max 14 MB) into an inline part
+ * - analyzeChart() adds patterns and support/resistance levels to the analysis
+ *
+ * Function calling:
+ * - generateWithTools() runs a tool loop: Gemini asks for calls, we execute
+ *   them and send the results back until it answers in text
+ * - `maxToolCalls` caps how many calls one loop may make
+ * - investigate() uses this to let Gemini fetch its own research first
+ *
+ * Structured output:
+ * - analyzeSentiment() uses response-schema mode and validates the result
+ * - Output that never validates throws SchemaValidationError (no placeholder values)
+ *
+ * Reliability:
+ * - Requests go through a token-bucket rate limiter (15 requests/minute by default)
+ * - 429, 5xx and network errors are retried with exponential backoff
+ * - With several API keys, a 429 switches to the next key (see ../shared/credentials)
+ * - The key is sent in the x-goog-api-key header, never in the URL
+ * - Failures throw typed errors from ../shared/errors (RateLimitError, AuthError, ...)
+ *
  * Usage:
  *   const client = createGeminiClient();
  *   const sentiment = await client.analyzeSentiment('BTC', newsData);
@@ -16,6 +62,17 @@
  * @see https://ai.google.dev/api
  */
 
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { TokenBucket, RateLimitOptions } from '../shared/rate-limiter';
+import { fetchWithRetry, FetchWithRetryOptions, RetryOptions } from '../shared/retry';
+import { KeyRing, loadApiKeys, missingKeyError } from '../shared/credentials';
+import { parseSSE } from '../shared/sse';
+import { mapWithConcurrency } from '../shared/concurrency';
+import { Citation } from '../shared/citation';
+import { UsageLedger } from '../shared/usage-ledger';
+import { estimateTokens, trimToTokenBudget } from '../shared/session-store';
+import { extractJson, JsonSchema, ParseStatus, SchemaValidationError, validateSchema } from '../shared/schema';
+
 // ============================================================================
 // Types - Define the shape of data we work with
 // ============================================================================
@@ -31,13 +88,59 @@ export type GeminiModel =
 
 /** Configuration for the Gemini client */
 export interface GeminiConfig {
-  apiKey: string;                // Your Gemini API key
+  apiKey: string | string[];     // Your Gemini API key (several are rotated on 429)
   defaultModel?: GeminiModel;    // Default model to use
+  retry?: RetryOptions;          // Backoff settings for transient failures
+  rateLimit?: RateLimitOptions;  // Client-side request rate (defaults to 15/min)
+  ledger?: UsageLedger;          // Record usage and enforce budgets (off when omitted)
 }
 
-/** Content part in a Gemini message */
+/** Content part in a Gemini message (text, an inline image, a function call or a function result) */
 export interface ContentPart {
-  text: string;
+  text?: string;
+  inlineData?: InlineData;
+  functionCall?: FunctionCall;
+  functionResponse?: FunctionResponse;
+  thoughtSignature?: string;    // Opaque; must be sent back with the call it belongs to
+}
+
+/** Inline file data (base64), e.g. a chart image */
+export interface InlineData {
+  mimeType: string;             // image/png, image/jpeg, image/webp
+  data: string;                 // Base64-encoded bytes
+}
+
+/** A function call requested by the model */
+export interface FunctionCall {
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+/** The result of a function call, sent back to the model */
+export interface FunctionResponse {
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/** A function the model may call */
+export interface FunctionDeclaration {
+  name: string;                 // snake_case, unique per request
+  description: string;          // When and why the model should call it
+  parameters: JsonSchema;       // Arguments, as an object schema
+}
+
+/** A function declaration plus the code that runs it */
+export interface GeminiTool {
+  declaration: FunctionDeclaration;
+  execute: (args: Record<string, unknown>) => Promise<Record<string, unknown>>;
+}
+
+/** One tool call made during a tool loop */
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  status: 'ok' | 'error' | 'skipped';   // skipped = over the maxToolCalls cap
+  error?: string;
 }
 
 /** A message in Gemini format */
@@ -46,15 +149,107 @@ export interface GeminiMessage {
   parts: ContentPart[];
 }
 
+/** Settings for a single generate call */
+export interface GenerateOptions {
+  model?: GeminiModel;
+  temperature?: number;
+  systemInstruction?: string;
+  responseSchema?: JsonSchema;  // Ask for JSON matching this schema
+  tools?: FunctionDeclaration[];  // Functions the model may call
+  functionCalling?: 'auto' | 'none';  // 'none' keeps tools declared but forbids calls
+}
+
+/** Settings for a tool loop */
+export interface ToolLoopOptions extends GenerateOptions {
+  maxToolCalls?: number;        // Cap on executed calls (default: 5)
+  onToolCall?: (call: ToolCallRecord) => void;  // Called after each call
+}
+
+/**
+ * A streaming generation
+ *
+ * Iterate it for text chunks; `response` and `reply` resolve once
+ * iteration has finished.
+ */
+export interface GeminiStream extends AsyncIterable<string> {
+  response: Promise<GeminiResponse>;  // Combined response, including usage
+  reply: Promise<GeminiReply>;        // Text and outcome, as readReply() gives it
+}
+
+/** Result of a tool loop */
+export interface ToolLoopResult {
+  reply: GeminiReply;           // The model's final answer
+  contents: GeminiMessage[];    // Every turn, including calls and results
+  tool_calls: ToolCallRecord[];
+  response: GeminiResponse;     // The last raw API response
+}
+
+/** Settings for analyzeResearch() */
+export interface ResearchOptions {
+  maxInputTokens?: number;      // Longer research is map-reduced (default: 12000)
+  chunkTokens?: number;         // Target chunk size when reducing (default: 6000)
+  citations?: Citation[];       // Sources of the research, kept on the result
+  onReduce?: (info: { input_tokens: number; max_input_tokens: number; chunks: number }) => void;
+}
+
+/** Sentiment analysis of (possibly reduced) research */
+export interface ResearchAnalysis extends SentimentAnalysis {
+  input_tokens: number;         // Research size as counted by countTokens
+  reduction?: {                 // Set when the research was summarised first
+    chunks: number;             // How many chunks were summarised
+    summary_tokens: number;     // Estimated size of the combined summaries
+  };
+}
+
+/** Result of investigate() */
+export interface Investigation {
+  analysis: SentimentAnalysis;
+  notes: string;                // Research notes the analysis was based on
+  tool_calls: ToolCallRecord[];
+}
+
+/** Settings for a conversation turn */
+export interface ConverseOptions extends GenerateOptions {
+  maxHistoryTokens?: number;    // History budget per turn (default: 8000)
+  onDelta?: (text: string) => void;  // Stream the reply, calling this per chunk
+}
+
+/** Result of a conversation turn */
+export interface ConversationTurn {
+  reply: GeminiReply;           // The model's answer and how it ended
+  history: GeminiMessage[];     // Full history including the new turns (unchanged if blocked or empty)
+  response: GeminiResponse;     // Raw API response (usage, finish reason)
+}
+
+/**
+ * How a response ended
+ * - ok: finished normally
+ * - truncated: cut off by the output token limit (text is incomplete)
+ * - blocked: refused by safety filters - the prompt or the answer
+ * - empty: no candidates or no text (e.g. a malformed function call)
+ */
+export type ReplyOutcome = 'ok' | 'truncated' | 'blocked' | 'empty';
+
+/** The readable part of a response */
+export interface GeminiReply {
+  text: string;                 // All text parts joined
+  outcome: ReplyOutcome;
+  finish_reason?: string;       // Candidate finishReason (STOP, MAX_TOKENS, SAFETY, ...)
+  block_reason?: string;        // promptFeedback.blockReason when the prompt was refused
+}
+
 /** Raw response from Gemini API */
 export interface GeminiResponse {
-  candidates: {
-    content: {
+  candidates?: {
+    content?: {                 // Missing when the candidate was blocked
       parts: ContentPart[];
       role: string;
     };
-    finishReason: string;
+    finishReason?: string;
   }[];
+  promptFeedback?: {            // Present when the prompt itself was blocked
+    blockReason?: string;
+  };
   usageMetadata?: {
     promptTokenCount: number;
     candidatesTokenCount: number;
@@ -71,9 +266,26 @@ export interface SentimentAnalysis {
   recommendation: 'buy' | 'sell' | 'hold';
   risk_level: 'low' | 'medium' | 'high';
   key_points: string[];
+  parse_status: Exclude<ParseStatus, 'invalid'>;  // 'repaired' = valid after re-asking (invalid output throws)
+  citations?: Citation[];       // Sources of the analysed research, when known (e.g. from Perplexity)
+  model: string;                // Model that produced the analysis
+  prompt_version: string;       // Bumped whenever the prompt changes (e.g. 'gemini-sentiment/1')
   timestamp: string;
 }
 
+/** The fields of a SentimentAnalysis that the model fills in */
+type SentimentFields = Omit<SentimentAnalysis, 'symbol' | 'parse_status' | 'citations' | 'model' | 'prompt_version' | 'timestamp'>;
+
+/** Sentiment analysis of a chart image */
+export interface ChartAnalysis extends SentimentAnalysis {
+  patterns: string[];           // Chart patterns seen (e.g. 'double top')
+  support_levels: number[];     // Strongest first
+  resistance_levels: number[];  // Strongest first
+}
+
+/** The fields of a ChartAnalysis that the model fills in */
+type ChartFields = Omit<ChartAnalysis, 'symbol' | 'parse_status' | 'citations' | 'model' | 'prompt_version' | 'timestamp'>;
+
 /** Input data for sentiment analysis */
 export interface MarketData {
   news?: string;           // Recent news summary
@@ -81,10 +293,107 @@ export interface MarketData {
   indicators?: string;     // Technical indicators
 }
 
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/** Base class for responses that can't be used as an answer */
+export class UnusableResponseError extends Error {
+  readonly reply: GeminiReply;
+
+  constructor(message: string, reply: GeminiReply) {
+    super(message);
+    this.name = new.target.name;
+    this.reply = reply;
+  }
+}
+
+/** Safety filters refused the prompt or the answer - retrying won't help */
+export class BlockedResponseError extends UnusableResponseError {}
+
+/** The answer hit the output token limit and is incomplete */
+export class TruncatedResponseError extends UnusableResponseError {}
+
+/** The response had no candidates or no text */
+export class EmptyResponseError extends UnusableResponseError {}
+
 // ============================================================================
 // Client Implementation
 // ============================================================================
 
+/** Matches the free-tier quota for flash models; raise it on paid plans */
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { requestsPerMinute: 15, burst: 3 };
+
+/** History sent per conversation turn when no budget is given */
+const DEFAULT_HISTORY_TOKENS = 8000;
+
+/** Tool calls per loop when no cap is given */
+const DEFAULT_MAX_TOOL_CALLS = 5;
+
+/** Gemini's inline request limit is 20 MB and base64 adds a third */
+const MAX_INLINE_IMAGE_BYTES = 14 * 1024 * 1024;
+
+/** Image formats Gemini accepts inline, by file signature */
+const IMAGE_SIGNATURES: { mimeType: string; matches: (bytes: Buffer) => boolean }[] = [
+  { mimeType: 'image/png', matches: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/jpeg', matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mimeType: 'image/webp', matches: (b) => b.toString('ascii', 0, 4) === 'RIFF' && b.toString('ascii', 8, 12) === 'WEBP' },
+];
+
+/** Gemini bills each image as a fixed number of tokens */
+const IMAGE_TOKENS = 258;
+
+/** Research above this is summarised in chunks before analysis */
+const DEFAULT_MAX_RESEARCH_TOKENS = 12000;
+
+/** Target chunk size when summarising long research */
+const DEFAULT_CHUNK_TOKENS = 6000;
+
+/** Model for sentiment analysis - flash has better rate limits (research is counted with it too) */
+const ANALYSIS_MODEL: GeminiModel = 'gemini-3-flash-preview';
+
+/** Cheap, fast model for chunk summaries */
+const SUMMARY_MODEL: GeminiModel = 'gemini-2.5-flash-lite';
+
+/** Stored with every analysis - bump when the matching system instruction changes */
+const SENTIMENT_PROMPT_VERSION = 'gemini-sentiment/1';
+const CHART_PROMPT_VERSION = 'gemini-chart/1';
+
+/** Finish reasons that mean the answer was withheld */
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+/** Per-field schema for SentimentAnalysis - keyed by its fields so the two can't drift apart */
+const SENTIMENT_FIELD_SCHEMAS: Record<keyof SentimentFields, JsonSchema> = {
+  sentiment: { type: 'string', enum: ['bullish', 'bearish', 'neutral'] },
+  confidence: { type: 'number', minimum: 0, maximum: 1 },
+  reasoning: { type: 'string', minLength: 1 },
+  recommendation: { type: 'string', enum: ['buy', 'sell', 'hold'] },
+  risk_level: { type: 'string', enum: ['low', 'medium', 'high'] },
+  key_points: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+};
+
+/** Shape analyzeSentiment() asks for and validates against */
+const SENTIMENT_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: SENTIMENT_FIELD_SCHEMAS,
+  required: Object.keys(SENTIMENT_FIELD_SCHEMAS),
+};
+
+/** Per-field schema for ChartAnalysis */
+const CHART_FIELD_SCHEMAS: Record<keyof ChartFields, JsonSchema> = {
+  ...SENTIMENT_FIELD_SCHEMAS,
+  patterns: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+  support_levels: { type: 'array', items: { type: 'number', minimum: 0 }, maxItems: 5 },
+  resistance_levels: { type: 'array', items: { type: 'number', minimum: 0 }, maxItems: 5 },
+};
+
+/** Shape analyzeChart() asks for and validates against */
+const CHART_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: CHART_FIELD_SCHEMAS,
+  required: Object.keys(CHART_FIELD_SCHEMAS),
+};
+
 /**
  * Gemini API Client
  *
@@ -92,85 +401,194 @@ export interface MarketData {
  * Use the factory function `createGeminiClient()` to create instances.
  */
 export class GeminiClient {
-  private apiKey: string;
+  private keys: KeyRing;
   private defaultModel: GeminiModel;
   private baseUrl = 'https://generativelanguage.googleapis.com/v1beta';
+  private retry: RetryOptions;
+  private limiter: TokenBucket;
+  private ledger?: UsageLedger;
 
   constructor(config: GeminiConfig) {
-    this.apiKey = config.apiKey;
+    this.keys = new KeyRing('gemini', ([] as string[]).concat(config.apiKey));
     this.defaultModel = config.defaultModel || 'gemini-3-flash-preview';
+    this.retry = config.retry || {};
+    this.limiter = new TokenBucket(config.rateLimit || DEFAULT_RATE_LIMIT);
+    this.ledger = config.ledger;
   }
 
   /**
    * Generate content using Gemini
    *
    * This is the low-level method for direct API access.
+   * Transient failures (429, 5xx, network) are retried before giving up.
    *
-   * @param prompt - The prompt to send
+   * @param prompt - The prompt to send, or the full list of turns (oldest first)
    * @param options - Model and generation settings
    * @returns Raw API response
+   * @throws ApiError subclass (see ../shared/errors) if the request fails
+   * @throws BudgetExceededError if the ledger's budget is used up
    */
   async generate(
-    prompt: string,
-    options: {
-      model?: GeminiModel;
-      temperature?: number;
-      systemInstruction?: string;
-    } = {}
+    prompt: string | GeminiMessage[],
+    options: GenerateOptions = {}
   ): Promise<GeminiResponse> {
     const model = options.model || this.defaultModel;
+    this.ledger?.assertWithinBudget();
 
-    // Build request body
-    const body: any = {
-      contents: [
-        {
-          role: 'user',
-          parts: [{ text: prompt }],
-        },
-      ],
-      generationConfig: {
-        temperature: options.temperature ?? 0.3,
-        topP: 0.95,
-        topK: 40,
-      },
-    };
-
-    // Add system instruction if provided
-    if (options.systemInstruction) {
-      body.systemInstruction = {
-        parts: [{ text: options.systemInstruction }],
-      };
-    }
+    const body = buildRequestBody(prompt, options);
 
-    // Make the API request
-    const url = `${this.baseUrl}/models/${model}:generateContent?key=${this.apiKey}`;
-    const response = await fetch(url, {
+    // Make the API request (rate limited, retried on transient errors)
+    const url = `${this.baseUrl}/models/${model}:generateContent`;
+    const response = await fetchWithRetry(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(body),
+    }, this.fetchOptions());
+
+    const result: GeminiResponse = await response.json();
+    this.recordUsage(model, result);
+    return result;
+  }
+
+  /**
+   * Generate content as a stream of text chunks
+   *
+   * Uses `:streamGenerateContent` (SSE). Iterate for text as it arrives;
+   * `response` resolves with the combined response (all text, last finish
+   * reason, prompt feedback, usage) once iteration finishes, and `reply`
+   * with the same readReply() outcome a normal call would give.
+   *
+   *   const stream = client.generateStream('Explain funding rates');
+   *   for await (const text of stream) process.stdout.write(text);
+   *   const reply = await stream.reply;  // check reply.outcome
+   *
+   * @param prompt - The prompt to send, or the full list of turns (oldest first)
+   * @param options - Model and generation settings
+   * @returns Async iterator of text chunks with the final response attached
+   * @throws ApiError subclass or BudgetExceededError, from the iterator
+   */
+  generateStream(
+    prompt: string | GeminiMessage[],
+    options: GenerateOptions = {}
+  ): GeminiStream {
+    const model = options.model || this.defaultModel;
+
+    let resolve!: (response: GeminiResponse) => void;
+    let reject!: (error: unknown) => void;
+    const response = new Promise<GeminiResponse>((res, rej) => {
+      resolve = res;
+      reject = rej;
     });
+    response.catch(() => {});  // Errors are also thrown from the iterator
+
+    // Arrow functions keep `this` for use inside the generator below
+    const recordUsage = (result: GeminiResponse) => this.recordUsage(model, result);
+    const request = async () => {
+      this.ledger?.assertWithinBudget();
+      const url = `${this.baseUrl}/models/${model}:streamGenerateContent?alt=sse`;
+      return fetchWithRetry(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildRequestBody(prompt, options)),
+      }, this.fetchOptions());
+    };
 
-    // Handle errors
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Gemini API error: ${response.status} - ${error}`);
+    async function* chunks(): AsyncGenerator<string> {
+      try {
+        const res = await request();
+        const parts: ContentPart[] = [];
+        let finishReason: string | undefined;
+        let promptFeedback: GeminiResponse['promptFeedback'];
+        let usage: GeminiResponse['usageMetadata'];
+
+        // Every event is a partial GeminiResponse
+        for await (const data of parseSSE(res.body!)) {
+          const chunk: GeminiResponse = JSON.parse(data);
+          const candidate = chunk.candidates?.[0];
+          finishReason = candidate?.finishReason || finishReason;
+          promptFeedback = chunk.promptFeedback || promptFeedback;
+          usage = chunk.usageMetadata || usage;
+
+          for (const part of candidate?.content?.parts || []) {
+            parts.push(part);
+            if (part.text) {
+              yield part.text;
+            }
+          }
+        }
+
+        const result: GeminiResponse = {
+          candidates: [{ content: { role: 'model', parts }, finishReason }],
+          promptFeedback,
+          usageMetadata: usage,
+        };
+        recordUsage(result);
+        resolve(result);
+      } catch (error) {
+        reject(error);
+        throw error;
+      }
     }
 
-    return response.json();
+    return Object.assign(chunks(), {
+      response,
+      reply: response.then(readReply),
+    });
   }
 
   /**
    * Simple text generation
    *
+   * Check `outcome` - a blocked, truncated or empty answer is returned
+   * as such rather than as plain (possibly empty) text.
+   *
    * @param prompt - What to ask Gemini
    * @param model - Which model to use
-   * @returns Generated text
+   * @param onDelta - Stream the answer, calling this per text chunk
+   * @returns Generated text and how the response ended
    */
-  async chat(prompt: string, model?: GeminiModel): Promise<string> {
-    const response = await this.generate(prompt, { model });
-    return response.candidates[0]?.content.parts[0]?.text || '';
+  async chat(prompt: string, model?: GeminiModel, onDelta?: (text: string) => void): Promise<GeminiReply> {
+    const response = await this.generateMaybeStreaming(prompt, { model }, onDelta);
+    return readReply(response);
+  }
+
+  /**
+   * Continue a conversation
+   *
+   * The history is not modified; the returned history has the new user
+   * and model turns appended and is what callers should save. Blocked and
+   * empty replies are not appended (Gemini rejects empty turns).
+   *
+   * @param history - Earlier turns, oldest first
+   * @param message - The next user message
+   * @param options - Model, generation settings and history budget
+   * @returns The reply and the updated history
+   */
+  async converse(
+    history: GeminiMessage[],
+    message: string,
+    options: ConverseOptions = {}
+  ): Promise<ConversationTurn> {
+    const { maxHistoryTokens = DEFAULT_HISTORY_TOKENS, onDelta, ...generateOptions } = options;
+    const userTurn: GeminiMessage = { role: 'user', parts: [{ text: message }] };
+
+    const response = await this.generateMaybeStreaming(
+      [...trimHistory(history, maxHistoryTokens), userTurn],
+      generateOptions,
+      onDelta
+    );
+
+    const reply = readReply(response);
+    const answered = reply.outcome === 'ok' || reply.outcome === 'truncated';
+    return {
+      reply,
+      history: answered ? [...history, userTurn, { role: 'model', parts: [{ text: reply.text }] }] : history,
+      response,
+    };
   }
 
   /**
@@ -178,95 +596,686 @@ export class GeminiClient {
    *
    * Takes market data (news, price action, indicators) and returns
    * structured sentiment analysis that can be used by trading bots.
+   * Uses Gemini's response-schema mode, validates the result (enums,
+   * confidence range) and re-asks the model up to `maxRepairs` times.
    *
    * @param symbol - Crypto symbol (e.g., 'BTC', 'ETH')
    * @param marketData - News, price action, and indicators
+   * @param options - How many times to re-ask on invalid output (default: 2)
    * @returns Structured sentiment analysis
+   * @throws SchemaValidationError if no response ever matched the schema
+   * @throws BlockedResponseError, TruncatedResponseError or EmptyResponseError
    */
   async analyzeSentiment(
     symbol: string,
-    marketData: MarketData
+    marketData: MarketData,
+    options: { maxRepairs?: number } = {}
   ): Promise<SentimentAnalysis> {
-    // Build context from market data
-    const context = [
-      marketData.news ? `Recent News:\n${marketData.news}` : '',
-      marketData.price_action ? `Price Action:\n${marketData.price_action}` : '',
-      marketData.indicators ? `Technical Indicators:\n${marketData.indicators}` : '',
-    ]
-      .filter(Boolean)
-      .join('\n\n');
+    const maxRepairs = options.maxRepairs ?? 2;
 
-    const systemInstruction = `You are a professional crypto market analyst. Analyze the provided market data and respond ONLY with valid JSON in this exact format:
-{
-  "sentiment": "bullish" | "bearish" | "neutral",
-  "confidence": 0.0-1.0,
-  "reasoning": "2-3 sentence explanation",
-  "recommendation": "buy" | "sell" | "hold",
-  "risk_level": "low" | "medium" | "high",
-  "key_points": ["point1", "point2", "point3"]
-}
+    // The response schema enforces the shape; the instruction explains the fields
+    const systemInstruction = `You are a professional crypto market analyst. Analyze the provided market data and respond with JSON:
+- sentiment: "bullish", "bearish" or "neutral"
+- confidence: 0.0-1.0 (0 means no conviction at all)
+- reasoning: 2-3 sentence explanation
+- recommendation: "buy", "sell" or "hold"
+- risk_level: "low", "medium" or "high"
+- key_points: the 1-5 most important points
 
 Be objective and data-driven. Consider both short-term and medium-term outlook.`;
 
-    const prompt = `Analyze the current market sentiment for ${symbol}:
+    const model = ANALYSIS_MODEL;
+    const { data, parse_status } = await this.generateStructured<SentimentFields>(
+      [{ role: 'user', parts: [{ text: buildSentimentPrompt(symbol, marketData) }] }],
+      {
+        model,
+        systemInstruction,
+        schema: SENTIMENT_ANALYSIS_SCHEMA,
+        subject: `${symbol} sentiment`,
+        maxRepairs,
+      }
+    );
 
-${context || 'No specific market data provided. Analyze based on your general knowledge of current market conditions.'}
+    return {
+      symbol,
+      sentiment: data.sentiment,
+      confidence: data.confidence,
+      reasoning: data.reasoning,
+      recommendation: data.recommendation,
+      risk_level: data.risk_level,
+      key_points: data.key_points,
+      parse_status,
+      model,
+      prompt_version: SENTIMENT_PROMPT_VERSION,
+      timestamp: new Date().toISOString(),
+    };
+  }
 
-Provide your analysis as JSON.`;
+  /**
+   * Analyze a chart image (screenshot or exported PNG/JPEG/WebP)
+   *
+   * Returns a sentiment analysis plus the chart patterns and
+   * support/resistance levels Gemini reads off the image. Optional market
+   * data is sent alongside as context.
+   *
+   * @param symbol - Crypto symbol (e.g., 'BTC')
+   * @param imagePath - Chart image file (max 14 MB)
+   * @param marketData - Optional news, price action and indicators
+   * @param options - Model (default: gemini-3-flash-preview) and how many times to re-ask on invalid output
+   * @returns Sentiment analysis with patterns and levels
+   * @throws Error if the image is missing, too large or not a supported format
+   * @throws SchemaValidationError if no response ever matched the schema
+   * @throws BlockedResponseError, TruncatedResponseError or EmptyResponseError
+   */
+  async analyzeChart(
+    symbol: string,
+    imagePath: string,
+    marketData: MarketData = {},
+    options: { model?: GeminiModel; maxRepairs?: number } = {}
+  ): Promise<ChartAnalysis> {
+    const systemInstruction = `You are a professional crypto technical analyst. Read the attached price chart and respond with JSON:
+- sentiment: "bullish", "bearish" or "neutral"
+- confidence: 0.0-1.0 (0 means no conviction at all)
+- reasoning: 2-3 sentence explanation based on what the chart shows
+- recommendation: "buy", "sell" or "hold"
+- risk_level: "low", "medium" or "high"
+- key_points: the 1-5 most important observations
+- patterns: chart patterns you can actually see (e.g. "ascending triangle", "double top"), empty if none
+- support_levels / resistance_levels: price levels read from the chart's axis, strongest first, empty if unreadable
 
-    const response = await this.generate(prompt, {
-      model: 'gemini-3-flash-preview',  // Flash has better rate limits
-      temperature: 0.2,                 // Low temp for consistent output
-      systemInstruction,
-    });
+Only report what is visible in the chart - never invent prices.`;
 
-    const content = response.candidates[0]?.content.parts[0]?.text || '{}';
+    const image = imagePart(imagePath);
+    const model = options.model || 'gemini-3-flash-preview';
+    const { data, parse_status } = await this.generateStructured<ChartFields>(
+      [{ role: 'user', parts: [image, { text: buildSentimentPrompt(symbol, marketData) }] }],
+      {
+        model,
+        systemInstruction,
+        schema: CHART_ANALYSIS_SCHEMA,
+        subject: `${symbol} chart analysis`,
+        maxRepairs: options.maxRepairs ?? 2,
+      }
+    );
 
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      const parsed = JSON.parse(jsonMatch?.[0] || content);
-
-      return {
-        symbol,
-        sentiment: parsed.sentiment || 'neutral',
-        confidence: parsed.confidence || 0.5,
-        reasoning: parsed.reasoning || '',
-        recommendation: parsed.recommendation || 'hold',
-        risk_level: parsed.risk_level || 'medium',
-        key_points: parsed.key_points || [],
-        timestamp: new Date().toISOString(),
-      };
-    } catch {
-      // Fallback if JSON parsing fails
-      return {
-        symbol,
-        sentiment: 'neutral',
-        confidence: 0.5,
-        reasoning: content.slice(0, 300),
-        recommendation: 'hold',
-        risk_level: 'medium',
-        key_points: [],
-        timestamp: new Date().toISOString(),
-      };
+    return {
+      symbol,
+      sentiment: data.sentiment,
+      confidence: data.confidence,
+      reasoning: data.reasoning,
+      recommendation: data.recommendation,
+      risk_level: data.risk_level,
+      key_points: data.key_points,
+      patterns: data.patterns,
+      support_levels: data.support_levels,
+      resistance_levels: data.resistance_levels,
+      parse_status,
+      model,
+      prompt_version: CHART_PROMPT_VERSION,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Generate with function calling
+   *
+   * Sends the declared tools, executes every call the model asks for and
+   * sends the results back, until the model answers in text. Once
+   * `maxToolCalls` calls have run, tools are switched off so the model
+   * has to answer with what it has.
+   *
+   * A tool that throws doesn't end the loop - the error is sent to the
+   * model as the call's result so it can try something else.
+   *
+   * @param prompt - The prompt, or the turns so far (oldest first)
+   * @param tools - Functions the model may call
+   * @param options - Generation settings, call cap and progress callback
+   * @returns The final text, all turns and a record of every call
+   */
+  async generateWithTools(
+    prompt: string | GeminiMessage[],
+    tools: GeminiTool[],
+    options: ToolLoopOptions = {}
+  ): Promise<ToolLoopResult> {
+    const { maxToolCalls = DEFAULT_MAX_TOOL_CALLS, onToolCall, ...generateOptions } = options;
+    const contents: GeminiMessage[] = typeof prompt === 'string'
+      ? [{ role: 'user', parts: [{ text: prompt }] }]
+      : [...prompt];
+    const byName = new Map(tools.map((t) => [t.declaration.name, t]));
+    const toolCalls: ToolCallRecord[] = [];
+
+    while (true) {
+      const capped = toolCalls.filter((c) => c.status !== 'skipped').length >= maxToolCalls;
+      const response = await this.generate(contents, {
+        ...generateOptions,
+        tools: tools.map((t) => t.declaration),
+        functionCalling: capped ? 'none' : 'auto',
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      const calls = parts.filter((p) => p.functionCall).map((p) => p.functionCall!);
+      if (calls.length === 0 || capped) {
+        return { reply: readReply(response), contents, tool_calls: toolCalls, response };
+      }
+
+      // Echo the model's turn (with thought signatures), then answer every call
+      contents.push({ role: 'model', parts });
+      const results: ContentPart[] = [];
+      for (const call of calls) {
+        const record = await this.runTool(call, byName, toolCalls, maxToolCalls);
+        toolCalls.push(record.call);
+        onToolCall?.(record.call);
+        results.push({ functionResponse: { name: call.name, response: record.response } });
+      }
+      contents.push({ role: 'user', parts: results });
     }
   }
 
+  /**
+   * Let Gemini research a symbol with tools, then analyze sentiment
+   *
+   * Gemini decides which research to fetch (within `maxToolCalls`) and
+   * writes notes; the notes then go through analyzeSentiment(), so the
+   * result is schema-validated like any other analysis.
+   *
+   * @param symbol - Crypto symbol (e.g., 'BTC')
+   * @param tools - Research tools (see ./research-tools)
+   * @param options - Call cap and progress callback
+   * @returns The analysis, the notes behind it and the calls made
+   * @throws SchemaValidationError if the final analysis never validates
+   * @throws UnusableResponseError subclass if the notes or analysis were blocked, cut off or empty
+   */
+  async investigate(
+    symbol: string,
+    tools: GeminiTool[],
+    options: Pick<ToolLoopOptions, 'maxToolCalls' | 'onToolCall'> = {}
+  ): Promise<Investigation> {
+    const maxToolCalls = options.maxToolCalls ?? DEFAULT_MAX_TOOL_CALLS;
+
+    const systemInstruction = `You are a professional crypto market analyst preparing a sentiment call on ${symbol}.
+Use the tools to fetch the research you need - at most ${maxToolCalls} calls, so pick them carefully.
+Then write research notes: the key facts, recent events with dates, market sentiment and risks, noting which tool each fact came from.
+Do not give a recommendation yet.`;
+
+    const loop = await this.generateWithTools(
+      `Research ${symbol} and write your notes.`,
+      tools,
+      { systemInstruction, temperature: 0.2, maxToolCalls, onToolCall: options.onToolCall }
+    );
+
+    const notes = requireText(loop.reply, `${symbol} research notes`);
+    const analysis = await this.analyzeSentiment(symbol, { news: notes });
+    return { analysis, notes, tool_calls: loop.tool_calls };
+  }
+
+  /**
+   * Count the tokens a prompt would use (free, not billed)
+   *
+   * @param prompt - Text, or the full list of turns
+   * @param model - Tokenizer to use (defaults to the client's model)
+   * @returns Total input tokens as Gemini counts them
+   * @throws ApiError subclass (see ../shared/errors) if the request fails
+   */
+  async countTokens(prompt: string | GeminiMessage[], model?: GeminiModel): Promise<number> {
+    const contents = typeof prompt === 'string'
+      ? [{ role: 'user', parts: [{ text: prompt }] }]
+      : prompt;
+
+    const url = `${this.baseUrl}/models/${model || this.defaultModel}:countTokens`;
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ contents }),
+    }, this.fetchOptions());
+
+    const result: { totalTokens?: number } = await response.json();
+    return result.totalTokens || 0;
+  }
+
   /**
    * Combine Perplexity research with Gemini analysis
    *
    * Takes raw research from Perplexity and produces trading signals.
+   * Research longer than `maxInputTokens` (counted with countTokens) is
+   * map-reduced first: split into chunks, each chunk summarised, and the
+   * analysis run on the combined summaries. `reduction` says when that
+   * happened.
    *
    * @param symbol - Crypto symbol
    * @param perplexityResearch - Raw research text from Perplexity
+   * @param options - Token limit, chunk size and a callback for when reduction starts
    * @returns Trading-ready sentiment analysis
    */
   async analyzeResearch(
     symbol: string,
-    perplexityResearch: string
-  ): Promise<SentimentAnalysis> {
-    return this.analyzeSentiment(symbol, { news: perplexityResearch });
+    perplexityResearch: string,
+    options: ResearchOptions = {}
+  ): Promise<ResearchAnalysis> {
+    const maxInputTokens = options.maxInputTokens ?? DEFAULT_MAX_RESEARCH_TOKENS;
+    const chunkTokens = options.chunkTokens ?? DEFAULT_CHUNK_TOKENS;
+    const inputTokens = await this.countTokens(perplexityResearch, ANALYSIS_MODEL);
+
+    if (inputTokens <= maxInputTokens) {
+      const analysis = await this.analyzeSentiment(symbol, { news: perplexityResearch });
+      return { ...analysis, citations: options.citations, input_tokens: inputTokens };
+    }
+
+    // Map: summarise each chunk (the rate limiter still applies)
+    const chunks = splitByTokens(perplexityResearch, chunkTokens);
+    options.onReduce?.({ input_tokens: inputTokens, max_input_tokens: maxInputTokens, chunks: chunks.length });
+
+    const settled = await mapWithConcurrency(chunks, 3, (chunk, i) =>
+      this.summarizeChunk(symbol, chunk, i + 1, chunks.length)
+    );
+    const failed = settled.find((r) => r.status === 'rejected');
+    if (failed) {
+      // A missing chunk would silently bias the analysis
+      throw (failed as PromiseRejectedResult).reason;
+    }
+
+    // Reduce: analyse the combined summaries
+    const summary = settled
+      .map((r, i) => `Part ${i + 1} of ${chunks.length}:\n${(r as PromiseFulfilledResult<string>).value}`)
+      .join('\n\n');
+    const analysis = await this.analyzeSentiment(symbol, { news: summary });
+
+    return {
+      ...analysis,
+      citations: options.citations,
+      input_tokens: inputTokens,
+      reduction: { chunks: chunks.length, summary_tokens: estimateTokens(summary) },
+    };
+  }
+
+  /**
+   * Summarise one chunk of long research, keeping what matters for a sentiment call
+   */
+  private async summarizeChunk(symbol: string, chunk: string, part: number, parts: number): Promise<string> {
+    const systemInstruction = `You condense crypto research for a market analyst.
+Keep every fact that matters for ${symbol} sentiment: events with dates, numbers (prices, flows, volumes), sentiment signals, risks and catalysts.
+Drop repetition, boilerplate and anything unrelated to ${symbol}. Write at most 250 words of plain bullet points.`;
+
+    const response = await this.generate(`Research excerpt (part ${part} of ${parts}):\n\n${chunk}`, {
+      model: SUMMARY_MODEL,
+      temperature: 0.1,
+      systemInstruction,
+    });
+    return requireText(readReply(response), `${symbol} research summary (part ${part})`);
+  }
+
+  /**
+   * generate(), or generateStream() when there is someone to stream to
+   *
+   * @returns The (combined) response either way
+   */
+  private async generateMaybeStreaming(
+    prompt: string | GeminiMessage[],
+    options: GenerateOptions,
+    onDelta?: (text: string) => void
+  ): Promise<GeminiResponse> {
+    if (!onDelta) {
+      return this.generate(prompt, options);
+    }
+
+    const stream = this.generateStream(prompt, options);
+    for await (const text of stream) {
+      onDelta(text);
+    }
+    return stream.response;
+  }
+
+  /** Retry, rate-limit and auth settings shared by every request */
+  private fetchOptions(): FetchWithRetryOptions {
+    return {
+      provider: 'gemini',
+      limiter: this.limiter,
+      keys: this.keys,
+      authHeaders: (key) => ({ 'x-goog-api-key': key }),
+      ...this.retry,
+    };
+  }
+
+  /** Record a call's tokens in the ledger (if any) */
+  private recordUsage(model: GeminiModel, result: GeminiResponse): void {
+    this.ledger?.record({
+      provider: 'gemini',
+      model,
+      prompt_tokens: result.usageMetadata?.promptTokenCount || 0,
+      completion_tokens: result.usageMetadata?.candidatesTokenCount || 0,
+    });
+  }
+
+  /**
+   * Ask for JSON matching a schema, re-asking with the problems until it validates
+   *
+   * @returns The validated data and whether it took a re-ask
+   * @throws SchemaValidationError after `maxRepairs` failed re-asks
+   * @throws UnusableResponseError subclass for blocked, cut-off or empty output
+   */
+  private async generateStructured<T>(
+    contents: GeminiMessage[],
+    options: {
+      model: GeminiModel;
+      systemInstruction: string;
+      schema: JsonSchema;
+      subject: string;
+      maxRepairs: number;
+    }
+  ): Promise<{ data: T; parse_status: Exclude<ParseStatus, 'invalid'> }> {
+    const turns = [...contents];
+    let content = '';
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= options.maxRepairs; attempt++) {
+      const response = await this.generate(turns, {
+        model: options.model,
+        temperature: 0.2,                 // Low temp for consistent output
+        systemInstruction: options.systemInstruction,
+        responseSchema: options.schema,
+      });
+
+      // Blocked or cut-off output is never turned into a signal
+      content = requireText(readReply(response), options.subject);
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(content);
+        errors = validateSchema(parsed, options.schema);
+      } catch (error) {
+        errors = [error instanceof Error ? error.message : String(error)];
+      }
+
+      if (errors.length === 0) {
+        return { data: parsed as T, parse_status: attempt === 0 ? 'valid' : 'repaired' };
+      }
+
+      // Show the model its own answer and what was wrong with it
+      turns.push(
+        { role: 'model', parts: [{ text: content }] },
+        { role: 'user', parts: [{ text: `That response was invalid:\n- ${errors.join('\n- ')}\nRespond again with ONLY the corrected JSON.` }] }
+      );
+    }
+
+    throw new SchemaValidationError(options.subject, errors, content, options.maxRepairs + 1);
+  }
+
+  /**
+   * Execute one requested call (or skip it once the cap is reached)
+   *
+   * @returns The record to report and the response to send back to the model
+   */
+  private async runTool(
+    call: FunctionCall,
+    tools: Map<string, GeminiTool>,
+    made: ToolCallRecord[],
+    maxToolCalls: number
+  ): Promise<{ call: ToolCallRecord; response: Record<string, unknown> }> {
+    const args = call.args || {};
+
+    if (made.filter((c) => c.status !== 'skipped').length >= maxToolCalls) {
+      const error = `Tool call limit (${maxToolCalls}) reached - answer with the research you have`;
+      return { call: { name: call.name, args, status: 'skipped', error }, response: { error } };
+    }
+
+    const tool = tools.get(call.name);
+    if (!tool) {
+      const error = `Unknown tool "${call.name}"`;
+      return { call: { name: call.name, args, status: 'error', error }, response: { error } };
+    }
+
+    try {
+      return { call: { name: call.name, args, status: 'ok' }, response: await tool.execute(args) };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return { call: { name: call.name, args, status: 'error', error }, response: { error } };
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read the text of a response and classify how it ended
+ *
+ * Joins every text part of the first candidate (not just the first part).
+ */
+export function readReply(response: GeminiResponse): GeminiReply {
+  const blockReason = response.promptFeedback?.blockReason;
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  const text = (candidate?.content?.parts || []).map((p) => p.text || '').join('');
+
+  let outcome: ReplyOutcome;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    outcome = 'blocked';
+  } else if (!text) {
+    outcome = 'empty';
+  } else if (finishReason === 'MAX_TOKENS') {
+    outcome = 'truncated';
+  } else {
+    outcome = 'ok';
   }
+
+  return { text, outcome, finish_reason: finishReason, block_reason: blockReason };
+}
+
+/**
+ * Text of a complete answer, or a typed error saying why there is none
+ */
+function requireText(reply: GeminiReply, subject: string): string {
+  switch (reply.outcome) {
+    case 'blocked':
+      throw new BlockedResponseError(`${subject} was blocked by Gemini (${reply.block_reason || reply.finish_reason})`, reply);
+    case 'truncated':
+      throw new TruncatedResponseError(`${subject} was cut off at the output token limit`, reply);
+    case 'empty':
+      throw new EmptyResponseError(`${subject}: Gemini returned no text (finish reason: ${reply.finish_reason || 'none'})`, reply);
+    default:
+      return reply.text;
+  }
+}
+
+/**
+ * Read an image file into an inline content part
+ *
+ * The MIME type comes from the file's signature, not its extension,
+ * so a mis-named export still works.
+ *
+ * @param path - PNG, JPEG or WebP file
+ * @returns Content part with the base64 image
+ * @throws Error if the file is missing, too large or not a supported image
+ */
+export function imagePart(path: string): ContentPart {
+  if (!existsSync(path)) {
+    throw new Error(`Image not found: ${path}`);
+  }
+
+  const size = statSync(path).size;
+  if (size > MAX_INLINE_IMAGE_BYTES) {
+    throw new Error(`Image ${path} is ${(size / 1024 / 1024).toFixed(1)} MB - the limit is ${MAX_INLINE_IMAGE_BYTES / 1024 / 1024} MB`);
+  }
+
+  const bytes = readFileSync(path);
+  const format = IMAGE_SIGNATURES.find((f) => f.matches(bytes));
+  if (!format) {
+    throw new Error(`Unsupported image format: ${path} (use PNG, JPEG or WebP)`);
+  }
+
+  return { inlineData: { mimeType: format.mimeType, data: bytes.toString('base64') } };
+}
+
+/**
+ * Build the user prompt for a sentiment analysis
+ */
+function buildSentimentPrompt(symbol: string, marketData: MarketData): string {
+  // Build context from market data
+  const context = [
+    marketData.news ? `Recent News:\n${marketData.news}` : '',
+    marketData.price_action ? `Price Action:\n${marketData.price_action}` : '',
+    marketData.indicators ? `Technical Indicators:\n${marketData.indicators}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return `Analyze the current market sentiment for ${symbol}:
+
+${context || 'No specific market data provided. Analyze based on your general knowledge of current market conditions.'}
+
+Provide your analysis as JSON.`;
+}
+
+/**
+ * Turn a finished sentiment analysis into conversation history
+ *
+ * Lets follow-up questions ("why high risk?") see the data and the
+ * answer without pasting them again.
+ *
+ * @returns A user turn with the analysis prompt and a model turn with the JSON result
+ */
+export function sentimentToHistory(
+  symbol: string,
+  marketData: MarketData,
+  analysis: SentimentAnalysis
+): GeminiMessage[] {
+  return [
+    { role: 'user', parts: [{ text: buildSentimentPrompt(symbol, marketData) }] },
+    { role: 'model', parts: [{ text: JSON.stringify(analysis, null, 2) }] },
+  ];
+}
+
+/**
+ * Build the generateContent request body (shared by streaming and normal calls)
+ */
+function buildRequestBody(prompt: string | GeminiMessage[], options: GenerateOptions): Record<string, any> {
+  const body: any = {
+    contents: typeof prompt === 'string'
+      ? [{ role: 'user', parts: [{ text: prompt }] }]
+      : prompt,
+    generationConfig: {
+      temperature: options.temperature ?? 0.3,
+      topP: 0.95,
+      topK: 40,
+    },
+  };
+
+  // Add system instruction if provided
+  if (options.systemInstruction) {
+    body.systemInstruction = {
+      parts: [{ text: options.systemInstruction }],
+    };
+  }
+
+  // Function declarations the model may call
+  if (options.tools && options.tools.length > 0) {
+    body.tools = [{
+      functionDeclarations: options.tools.map((d) => ({
+        name: d.name,
+        description: d.description,
+        parameters: toGeminiSchema(d.parameters),
+      })),
+    }];
+    body.toolConfig = {
+      functionCallingConfig: { mode: options.functionCalling === 'none' ? 'NONE' : 'AUTO' },
+    };
+  }
+
+  // Structured output: JSON constrained to the schema
+  if (options.responseSchema) {
+    body.generationConfig.responseMimeType = 'application/json';
+    body.generationConfig.responseSchema = toGeminiSchema(options.responseSchema);
+  }
+
+  return body;
+}
+
+/**
+ * Convert a JSON schema to Gemini's OpenAPI-style schema
+ *
+ * Gemini wants upper-case types and doesn't accept every keyword, so
+ * only the ones it supports are copied; validateSchema() still checks
+ * the rest locally.
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  const out: Record<string, unknown> = { type: schema.type.toUpperCase() };
+
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum.map(String);
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  if (schema.minItems !== undefined) out.minItems = schema.minItems;
+  if (schema.maxItems !== undefined) out.maxItems = schema.maxItems;
+  if (schema.items) out.items = toGeminiSchema(schema.items);
+  if (schema.required) out.required = schema.required;
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, child]) => [key, toGeminiSchema(child)])
+    );
+    out.propertyOrdering = Object.keys(schema.properties);
+  }
+
+  return out;
+}
+
+/**
+ * Split text into chunks of about `maxTokens` each
+ *
+ * Splits on paragraph boundaries where possible; a single paragraph
+ * longer than a chunk is cut into chunk-sized pieces.
+ */
+function splitByTokens(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * 4;  // Matches estimateTokens()
+  const pieces = text.split(/\n\s*\n/).flatMap((paragraph) => {
+    if (paragraph.length <= maxChars) return [paragraph];
+    const cut: string[] = [];
+    for (let i = 0; i < paragraph.length; i += maxChars) {
+      cut.push(paragraph.slice(i, i + maxChars));
+    }
+    return cut;
+  });
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current.trim()) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/** Rough token count of a content part */
+function partTokens(part: ContentPart): number {
+  if (part.inlineData) {
+    return IMAGE_TOKENS;
+  }
+  return estimateTokens(part.text ?? JSON.stringify(part));
+}
+
+/**
+ * Keep the newest turns that fit in the budget
+ *
+ * Gemini expects a conversation to open with a user turn, so a model
+ * turn left at the front by trimming is dropped too.
+ */
+function trimHistory(history: GeminiMessage[], maxTokens: number): GeminiMessage[] {
+  if (history.length === 0) {
+    return [];
+  }
+
+  const kept = trimToTokenBudget(history, maxTokens, (m) =>
+    m.parts.reduce((sum, part) => sum + partTokens(part), 0)
+  );
+  return kept[0].role === 'model' ? kept.slice(1) : kept;
 }
 
 // ============================================================================
@@ -276,9 +1285,11 @@ Provide your analysis as JSON.`;
 /**
  * Create a Gemini client instance
  *
- * Reads API key from environment if not provided.
+ * Reads API keys from the environment and config files if not provided
+ * (see ../shared/credentials).
  *
- * @param apiKey - Optional API key (defaults to GEMINI_API_KEY env var)
+ * @param apiKey - Optional API key (defaults to GEMINI_API_KEY(S), then .ai-tools/config.json, then ~/.config/ai-tools/config.json)
+ * @param options - Extra client settings (ledger, retry, rate limit...)
  * @returns Configured GeminiClient instance
  * @throws Error if no API key is available
  *
@@ -289,12 +1300,15 @@ Provide your analysis as JSON.`;
  *   // Or pass key directly
  *   const client = createGeminiClient('your-api-key');
  */
-export function createGeminiClient(apiKey?: string): GeminiClient {
-  const key = apiKey || process.env.GEMINI_API_KEY;
+export function createGeminiClient(
+  apiKey?: string,
+  options: Omit<GeminiConfig, 'apiKey'> = {}
+): GeminiClient {
+  const keys = apiKey ? [apiKey] : loadApiKeys('gemini');
 
-  if (!key) {
-    throw new Error('GEMINI_API_KEY is required. Set it in .envrc or pass it directly.');
+  if (keys.length === 0) {
+    throw missingKeyError('gemini');
   }
 
-  return new GeminiClient({ apiKey: key });
+  return new GeminiClient({ ...options, apiKey: keys });
 }
@@ -0,0 +1,118 @@
+/**
+ * Saved Perplexity Output as Gemini Input
+ *
+ * Reads the JSON the Perplexity CLI saves (`perplexity crypto BTC -o`,
+ * `perplexity sentiment BTC -o`) and turns it into research text for
+ * GeminiClient.analyzeResearch(), keeping the rated citations so the
+ * resulting SentimentAnalysis still says where its information came from.
+ *
+ * Accepted shapes:
+ * - A ResearchResult (search, news, crypto)
+ * - A MarketSentiment (sentiment)
+ * - An array of either
+ * - A Signal, or a JSONL file of them that `sentiment -o` appends to (see ../shared/signal)
+ *
+ * Usage:
+ *   const { research, citations } = loadPerplexityResearch('btc.json', 'BTC');
+ *   const result = await gemini.analyzeResearch('BTC', research, { citations });
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { MarketSentiment, ResearchResult } from '../perplexity/perplexity-client';
+import { Citation, toCitation } from '../shared/citation';
+import { SignalStore } from '../shared/signal-store';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Research text and sources read from a Perplexity JSON file */
+export interface PerplexityResearch {
+  research: string;        // Text to analyse
+  citations: Citation[];   // Rated sources, de-duplicated by URL
+  items: number;           // How many results/signals were used
+}
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+/**
+ * Load saved Perplexity output
+ *
+ * Entries for other symbols are skipped when they carry a `symbol`
+ * (signals files usually hold a whole watchlist).
+ *
+ * @param file - JSON or JSONL file written by the Perplexity CLI
+ * @param symbol - Symbol being analysed
+ * @returns Research text, citations and how many entries were used
+ * @throws Error if the file is missing, not JSON, or has nothing usable for the symbol
+ */
+export function loadPerplexityResearch(file: string, symbol: string): PerplexityResearch {
+  if (!existsSync(file)) {
+    throw new Error(`Perplexity file not found: ${file}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    // Signal files hold one JSON signal per line
+    const { signals } = new SignalStore(file).read();
+    if (signals.length === 0) {
+      throw new Error(`${file} is not valid JSON or JSONL`);
+    }
+    data = signals.filter((s) => s.provider === 'perplexity');
+  }
+
+  const entries = (Array.isArray(data) ? data : [data])
+    .filter((e): e is Record<string, unknown> => typeof e === 'object' && e !== null)
+    .filter((e) => typeof e.symbol !== 'string' || e.symbol.toUpperCase() === symbol.toUpperCase())
+    .filter((e) => e.provider === undefined || e.provider === 'perplexity');
+
+  const sections: string[] = [];
+  const citations = new Map<string, Citation>();
+
+  for (const entry of entries) {
+    const text = describeEntry(entry);
+    if (!text) continue;
+
+    sections.push(text);
+    for (const c of (entry.citations as (Citation | string)[] | undefined) || []) {
+      const citation = toCitation(c);
+      citations.set(citation.url, citation);
+    }
+  }
+
+  if (sections.length === 0) {
+    throw new Error(`${file} has no Perplexity research or sentiment for ${symbol.toUpperCase()}`);
+  }
+
+  return { research: sections.join('\n\n'), citations: [...citations.values()], items: sections.length };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Research text for one ResearchResult or MarketSentiment (undefined if neither) */
+function describeEntry(entry: Record<string, unknown>): string | undefined {
+  if (typeof entry.answer === 'string') {
+    const result = entry as unknown as ResearchResult;
+    return `Perplexity research${result.query ? ` ("${result.query.trim().split('\n')[0]}")` : ''}:\n${result.answer}`;
+  }
+
+  if (typeof entry.sentiment === 'string' && typeof entry.summary === 'string') {
+    const signal = entry as unknown as MarketSentiment & { timestamp?: string; key_points?: string[] };
+    // Signals that never validated carry placeholder fields
+    if (signal.parse_status === 'invalid') return undefined;
+
+    return [
+      `Perplexity sentiment${signal.timestamp ? ` (${signal.timestamp})` : ''}: ${signal.sentiment}, ${Math.round(signal.confidence * 100)}% confidence`,
+      signal.summary,
+      ...(signal.key_factors || signal.key_points || []).map((f) => `- ${f}`),
+    ].join('\n');
+  }
+
+  return undefined;
+}
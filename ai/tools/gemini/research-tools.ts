@@ -0,0 +1,113 @@
+/**
+ * Perplexity Research as Gemini Tools
+ *
+ * Wraps PerplexityClient methods as function-calling tools so Gemini can
+ * fetch live research itself instead of having it pasted in.
+ *
+ * Tools:
+ * - search_news: recent news on a topic (PerplexityClient.searchNews)
+ * - research_crypto: market overview for a symbol (PerplexityClient.researchCrypto)
+ * - get_market_sentiment: structured sentiment for a symbol (PerplexityClient.getMarketSentiment)
+ *
+ * Results are trimmed to what the model needs: the answer, rated sources
+ * and the source-quality score.
+ *
+ * Usage:
+ *   const tools = createResearchTools(createPerplexityClient());
+ *   const result = await gemini.investigate('BTC', tools, { maxToolCalls: 4 });
+ */
+
+import { PerplexityClient, ResearchResult } from '../perplexity/perplexity-client';
+import { Citation } from '../shared/citation';
+import { GeminiTool } from './gemini-client';
+
+// ============================================================================
+// Tool Factory
+// ============================================================================
+
+/**
+ * Create the research tools
+ *
+ * @param perplexity - Client used to run every tool (its cache, ledger and rate limit apply)
+ * @returns Tools to pass to GeminiClient.generateWithTools() or investigate()
+ */
+export function createResearchTools(perplexity: PerplexityClient): GeminiTool[] {
+  return [
+    {
+      declaration: {
+        name: 'search_news',
+        description: 'Search recent news on a topic. Use for events, announcements and regulatory news.',
+        parameters: {
+          type: 'object',
+          properties: {
+            topic: { type: 'string', description: 'What to search for, e.g. "Bitcoin ETF flows"' },
+            timeframe: { type: 'string', description: 'How far back to look, e.g. "last 24 hours", "past week" (default: last 24 hours)' },
+          },
+          required: ['topic'],
+        },
+      },
+      execute: async (args) =>
+        summarizeResult(await perplexity.searchNews(String(args.topic), args.timeframe ? String(args.timeframe) : undefined)),
+    },
+    {
+      declaration: {
+        name: 'research_crypto',
+        description: 'Get a market overview for a cryptocurrency: price trend, key news, sentiment and levels.',
+        parameters: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string', description: 'Crypto symbol, e.g. "BTC"' },
+          },
+          required: ['symbol'],
+        },
+      },
+      execute: async (args) => summarizeResult(await perplexity.researchCrypto(String(args.symbol).toUpperCase())),
+    },
+    {
+      declaration: {
+        name: 'get_market_sentiment',
+        description: 'Get a structured sentiment reading (bullish/bearish/neutral with confidence) for a cryptocurrency.',
+        parameters: {
+          type: 'object',
+          properties: {
+            symbol: { type: 'string', description: 'Crypto symbol, e.g. "BTC"' },
+          },
+          required: ['symbol'],
+        },
+      },
+      execute: async (args) => {
+        const result = await perplexity.getMarketSentiment(String(args.symbol).toUpperCase());
+        if (result.parse_status === 'invalid') {
+          throw new Error(`Perplexity returned no valid sentiment for ${result.symbol}`);
+        }
+
+        return {
+          sentiment: result.sentiment,
+          confidence: result.confidence,
+          summary: result.summary,
+          key_factors: result.key_factors,
+          sources: result.citations.map(describeSource),
+          source_quality: result.source_quality.score,
+        };
+      },
+    },
+  ];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** The parts of a ResearchResult worth sending to the model */
+function summarizeResult(result: ResearchResult): Record<string, unknown> {
+  return {
+    answer: result.answer,
+    sources: result.citations.map(describeSource),
+    source_quality: result.source_quality.score,
+  };
+}
+
+/** One-line source description, e.g. "reuters.com (high tier, 2025-06-01)" */
+function describeSource(citation: Citation): string {
+  return `${citation.domain} (${citation.tier} tier${citation.date ? `, ${citation.date}` : ''})`;
+}
@@ -0,0 +1,187 @@
+/**
+ * Technical Indicators
+ *
+ * Plain functions over price series, oldest value first. Each returns a
+ * series the same length as its input, with NaN until there is enough data
+ * (e.g. the first 19 values of a 20-period SMA), so values line up with the
+ * candles they belong to.
+ *
+ * Conventions:
+ * - EMA is seeded with the SMA of its first `period` values
+ * - RSI and ATR use Wilder's smoothing (as most charting tools do)
+ * - Bollinger bands use the population standard deviation
+ *
+ * Usage:
+ *   const closes = candles.map((c) => c.close);
+ *   const rsi14 = last(rsi(closes, 14));
+ *   const { histogram } = macd(closes);
+ */
+
+import { Candle } from '../shared/ohlcv';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** MACD line, its signal line and the difference */
+export interface MacdSeries {
+  macd: number[];
+  signal: number[];
+  histogram: number[];
+}
+
+/** Bollinger bands around a moving average */
+export interface BollingerSeries {
+  middle: number[];
+  upper: number[];
+  lower: number[];
+}
+
+// ============================================================================
+// Moving Averages
+// ============================================================================
+
+/** Simple moving average */
+export function sma(values: number[], period: number): number[] {
+  const out = new Array<number>(values.length).fill(NaN);
+  let sum = 0;
+
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  });
+  return out;
+}
+
+/**
+ * Exponential moving average
+ * NaN inputs (e.g. the warm-up of another indicator) are skipped until the first real value.
+ */
+export function ema(values: number[], period: number): number[] {
+  const out = new Array<number>(values.length).fill(NaN);
+  const start = values.findIndex((v) => !Number.isNaN(v));
+  if (start === -1 || values.length - start < period) {
+    return out;
+  }
+
+  const k = 2 / (period + 1);
+  let prev = values.slice(start, start + period).reduce((a, b) => a + b, 0) / period;
+  out[start + period - 1] = prev;
+
+  for (let i = start + period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+// ============================================================================
+// Oscillators
+// ============================================================================
+
+/** Relative strength index (0-100) */
+export function rsi(values: number[], period = 14): number[] {
+  const out = new Array<number>(values.length).fill(NaN);
+  if (values.length <= period) {
+    return out;
+  }
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+  out[period] = toRsi(gain, loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+    out[i] = toRsi(gain, loss);
+  }
+  return out;
+}
+
+/** Moving average convergence/divergence (default 12, 26, 9) */
+export function macd(values: number[], fast = 12, slow = 26, signalPeriod = 9): MacdSeries {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = values.map((_, i) => fastEma[i] - slowEma[i]);
+  const signal = ema(line, signalPeriod);
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => value - signal[i]),
+  };
+}
+
+// ============================================================================
+// Volatility and Volume
+// ============================================================================
+
+/** Average true range */
+export function atr(candles: Candle[], period = 14): number[] {
+  const out = new Array<number>(candles.length).fill(NaN);
+  if (candles.length < period) {
+    return out;
+  }
+
+  const trueRange = candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+
+  let prev = trueRange.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < candles.length; i++) {
+    prev = (prev * (period - 1) + trueRange[i]) / period;
+    out[i] = prev;
+  }
+  return out;
+}
+
+/** Bollinger bands (default 20 periods, 2 standard deviations) */
+export function bollinger(values: number[], period = 20, deviations = 2): BollingerSeries {
+  const middle = sma(values, period);
+  const width = values.map((_, i) => {
+    if (Number.isNaN(middle[i])) return NaN;
+    const window = values.slice(i - period + 1, i + 1);
+    return deviations * Math.sqrt(window.reduce((sum, v) => sum + (v - middle[i]) ** 2, 0) / period);
+  });
+
+  return {
+    middle,
+    upper: middle.map((m, i) => m + width[i]),
+    lower: middle.map((m, i) => m - width[i]),
+  };
+}
+
+/**
+ * Volume of each candle relative to the average of the `period` candles before it
+ * 0.35 means 35% above that average.
+ */
+export function volumeChange(candles: Candle[], period = 20): number[] {
+  const average = sma(candles.map((c) => c.volume), period);
+  return candles.map((c, i) => (i >= period && average[i - 1] > 0 ? c.volume / average[i - 1] - 1 : NaN));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Last value of a series (NaN when empty) */
+export function last(series: number[]): number {
+  return series.length > 0 ? series[series.length - 1] : NaN;
+}
+
+function toRsi(gain: number, loss: number): number {
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+}
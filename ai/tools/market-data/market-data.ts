@@ -0,0 +1,284 @@
+/**
+ * Market Data for Analysis Prompts
+ *
+ * Loads recent candles for a symbol, computes technical indicators and
+ * writes them up as compact text for MarketData.price_action and
+ * MarketData.indicators (see gemini-client.ts), so the model is given
+ * current numbers instead of guessing them.
+ *
+ * Candle sources:
+ * - A CSV file, or a directory of them (see shared/ohlcv.ts for the format)
+ * - An exchange adapter, by name - 'binance' (public klines, no key) is
+ *   built in; add others with registerExchange(). Exchange names win over
+ *   files, so a file called 'binance' never hides the exchange
+ *
+ * The text is deterministic: the same candles always give the same text
+ * (fixed order, fixed rounding, no wall-clock time), so cached prompts and
+ * stored signals can be compared.
+ *
+ * Usage:
+ *   const candles = await loadMarketCandles('BTC', { source: 'binance', interval: '1d' });
+ *   const { price_action, indicators } = describeMarket('BTC', candles, '1d');
+ *   await gemini.analyzeSentiment('BTC', { price_action, indicators });
+ */
+
+import { existsSync, statSync } from 'node:fs';
+import { Candle, findPriceFile, loadCandles } from '../shared/ohlcv';
+import { TokenBucket } from '../shared/rate-limiter';
+import { fetchWithRetry } from '../shared/retry';
+import { atr, bollinger, ema, last, macd, rsi, sma, volumeChange } from './indicators';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What to fetch from an exchange */
+export interface CandleRequest {
+  interval: string;              // e.g. '1h', '4h', '1d'
+  limit: number;                 // Most recent candles wanted
+}
+
+/** Source of candles from an exchange or data vendor */
+export interface ExchangeAdapter {
+  name: string;
+  fetchCandles(symbol: string, request: CandleRequest): Promise<Candle[]>;
+}
+
+/** Options for loadMarketCandles() */
+export interface MarketDataOptions {
+  source?: string;               // Exchange name (checked first), CSV file or directory (default: 'binance')
+  interval?: string;             // Candle interval (default: '1d'); ignored for CSV
+  limit?: number;                // Candles to use (default: 250)
+}
+
+/** Indicator text for MarketData */
+export interface MarketDataText {
+  price_action: string;
+  indicators: string;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/** Candles could not be loaded */
+export class MarketDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_SOURCE = 'binance';
+const DEFAULT_INTERVAL = '1d';
+const DEFAULT_LIMIT = 250;
+
+/** Fewest candles worth describing (RSI14 and ATR14 need 15) */
+const MIN_CANDLES = 15;
+
+/** Give up on a Binance attempt after this long (it is then retried) */
+const BINANCE_TIMEOUT_MS = 15_000;
+
+// ============================================================================
+// Exchange Adapters
+// ============================================================================
+
+const exchanges = new Map<string, ExchangeAdapter>();
+
+/**
+ * Make an exchange adapter available by name (replaces one with the same name)
+ */
+export function registerExchange(adapter: ExchangeAdapter): void {
+  exchanges.set(adapter.name.toLowerCase(), adapter);
+}
+
+/** Names of the registered exchanges */
+export function exchangeNames(): string[] {
+  return [...exchanges.keys()].sort();
+}
+
+/** Whether a market data source names a registered exchange (rather than a file) */
+export function isExchange(source: string): boolean {
+  return exchanges.has(source.toLowerCase());
+}
+
+/** Well under Binance's public limits - just keeps a loop over many symbols polite */
+const binanceLimiter = new TokenBucket({ requestsPerMinute: 300, burst: 5 });
+
+/**
+ * Binance spot klines against USDT
+ * The candle still forming is dropped - its volume and close aren't final.
+ * Requests are rate limited, time out and are retried like the API clients'.
+ */
+const binance: ExchangeAdapter = {
+  name: 'binance',
+  async fetchCandles(symbol, { interval, limit }) {
+    const pair = `${symbol.toUpperCase()}USDT`;
+    const url = `https://api.binance.com/api/v3/klines?symbol=${pair}&interval=${encodeURIComponent(interval)}&limit=${Math.min(limit + 1, 1000)}`;
+
+    let response: Response;
+    try {
+      response = await fetchWithRetry(url, {}, { provider: 'binance', limiter: binanceLimiter, timeoutMs: BINANCE_TIMEOUT_MS });
+    } catch (error) {
+      throw new MarketDataError(`${pair} ${interval} candles: ${error instanceof Error ? error.message.slice(0, 300) : String(error)}`);
+    }
+
+    const rows = (await response.json()) as Array<[number, string, string, string, string, string, number]>;
+    const now = Date.now();
+    return rows
+      .filter((row) => row[6] < now)
+      .slice(-limit)
+      .map(([time, open, high, low, close, volume]) => ({
+        time,
+        open: Number(open),
+        high: Number(high),
+        low: Number(low),
+        close: Number(close),
+        volume: Number(volume),
+      }));
+  },
+};
+
+registerExchange(binance);
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load recent candles for a symbol
+ *
+ * @param symbol - e.g. 'BTC'
+ * @param options - Source, interval and number of candles
+ * @returns Candles, oldest first
+ * @throws MarketDataError if the source is unknown or has too few candles
+ */
+export async function loadMarketCandles(symbol: string, options: MarketDataOptions = {}): Promise<Candle[]> {
+  const source = options.source || DEFAULT_SOURCE;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+
+  let candles: Candle[];
+  const exchange = exchanges.get(source.toLowerCase());
+  if (exchange) {
+    candles = await exchange.fetchCandles(symbol, { interval: options.interval || DEFAULT_INTERVAL, limit });
+  } else if (existsSync(source)) {
+    const file = statSync(source).isDirectory() ? findPriceFile(source, symbol) : source;
+    if (!file) {
+      throw new MarketDataError(`No price file for ${symbol.toUpperCase()} in ${source}`);
+    }
+    candles = loadCandles(file).slice(-limit);
+  } else {
+    throw new MarketDataError(`Unknown market data source "${source}" - use a CSV file, a directory or ${exchangeNames().join(', ')}`);
+  }
+
+  if (candles.length < MIN_CANDLES) {
+    throw new MarketDataError(`Only ${candles.length} ${symbol.toUpperCase()} candles from ${source} - need at least ${MIN_CANDLES}`);
+  }
+  return candles;
+}
+
+// ============================================================================
+// Description
+// ============================================================================
+
+/**
+ * Write candles up as price action and indicator text
+ *
+ * Indicators without enough candles (e.g. SMA200 from 120 candles) are left out.
+ *
+ * @param symbol - For the heading
+ * @param candles - Oldest first, at least a few dozen for useful output
+ * @param interval - Candle interval, for the text (default: worked out from the candle spacing)
+ */
+export function describeMarket(symbol: string, candles: Candle[], interval = candleInterval(candles)): MarketDataText {
+  const closes = candles.map((c) => c.close);
+  const latest = candles[candles.length - 1];
+  const close = latest.close;
+
+  const changes = [1, 7, 30]
+    .filter((bars) => candles.length > bars)
+    .map((bars) => `${bars} bar${bars === 1 ? '' : 's'} ${signedPercent(close / closes[closes.length - 1 - bars] - 1)}`);
+  const recent = candles.slice(-30);
+  const high = Math.max(...recent.map((c) => c.high));
+  const low = Math.min(...recent.map((c) => c.low));
+
+  const priceAction = [
+    `${symbol.toUpperCase()} last close ${price(close)} (${interval} candles, ${candles.length} to ${new Date(latest.time).toISOString().slice(0, 16).replace('T', ' ')} UTC)`,
+    changes.length > 0 ? `Change: ${changes.join(', ')}` : undefined,
+    `${recent.length}-bar range ${price(low)} - ${price(high)}, close at ${Math.round(high > low ? ((close - low) / (high - low)) * 100 : 50)}% of range`,
+  ];
+
+  const smas = [20, 50, 200]
+    .map((period) => [period, last(sma(closes, period))])
+    .filter(([, value]) => !Number.isNaN(value))
+    .map(([period, value]) => `SMA${period} ${price(value)} (close ${signedPercent(close / value - 1)})`);
+  const ema12 = last(ema(closes, 12));
+  const ema26 = last(ema(closes, 26));
+  const rsi14 = last(rsi(closes, 14));
+  const m = macd(closes);
+  const atr14 = last(atr(candles, 14));
+  const bands = bollinger(closes, 20, 2);
+  const upper = last(bands.upper);
+  const lower = last(bands.lower);
+  const volume = last(volumeChange(candles, 20));
+
+  const indicators = [
+    smas.length > 0 ? smas.join(', ') : undefined,
+    known(ema12, ema26) ? `EMA12 ${price(ema12)}, EMA26 ${price(ema26)}` : undefined,
+    known(rsi14) ? `RSI14 ${rsi14.toFixed(1)}${rsi14 >= 70 ? ' (overbought)' : rsi14 <= 30 ? ' (oversold)' : ''}` : undefined,
+    known(last(m.histogram))
+      ? `MACD(12,26,9) ${signedPrice(last(m.macd))}, signal ${signedPrice(last(m.signal))}, histogram ${signedPrice(last(m.histogram))}`
+      : undefined,
+    known(atr14) ? `ATR14 ${price(atr14)} (${(atr14 / close * 100).toFixed(2)}% of close)` : undefined,
+    known(upper, lower)
+      ? `Bollinger(20,2) ${price(lower)} / ${price(last(bands.middle))} / ${price(upper)} (%B ${(upper > lower ? (close - lower) / (upper - lower) : 0.5).toFixed(2)})`
+      : undefined,
+    known(volume) ? `Volume ${formatVolume(latest.volume)}, ${signedPercent(volume)} vs 20-bar average` : undefined,
+  ];
+
+  return {
+    price_action: priceAction.filter(Boolean).join('\n'),
+    indicators: indicators.filter(Boolean).join('\n'),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Interval of candles from the gap between the last two, e.g. '4h' or '1d' */
+function candleInterval(candles: Candle[]): string {
+  const minutes = candles.length > 1 ? Math.round((candles[candles.length - 1].time - candles[candles.length - 2].time) / 60000) : 0;
+  if (minutes > 0 && minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes > 0 && minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+function known(...values: number[]): boolean {
+  return values.every((v) => Number.isFinite(v));
+}
+
+/** Price with precision that suits its size (e.g. 67250.00, 3.4521, 0.00001234) */
+function price(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1000) return value.toFixed(2);
+  if (abs >= 1) return value.toFixed(4);
+  return value.toPrecision(4);
+}
+
+function signedPrice(value: number): string {
+  return `${value >= 0 ? '+' : ''}${price(value)}`;
+}
+
+function signedPercent(fraction: number): string {
+  return `${fraction >= 0 ? '+' : ''}${(fraction * 100).toFixed(2)}%`;
+}
+
+/** Volume rounded to a readable size */
+function formatVolume(value: number): string {
+  return value >= 100 ? value.toFixed(0) : value.toFixed(2);
+}
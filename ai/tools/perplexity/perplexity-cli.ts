@@ -5,15 +5,43 @@
  *
  * Usage:
  *   ./perplexity search "query"           - General search
+ *   ./perplexity search "query" --stream  - Print the answer as it is generated
  *   ./perplexity news "Bitcoin"           - Get latest news
+ *   ./perplexity news BTC --since 2026-01-01 --domains reuters.com,coindesk.com
  *   ./perplexity crypto BTC               - Research a crypto
- *   ./perplexity sentiment ETH -o out.json - Get sentiment and save to file
+ *   ./perplexity crypto BTC -o btc.json   - Save the result for gemini research --from-perplexity
+ *   ./perplexity sentiment ETH -o out.jsonl - Get sentiment and append it to a JSONL file
+ *   ./perplexity sentiment BTC ETH SOL    - Batch sentiment for a watchlist
+ *   ./perplexity sentiment -w watchlist.json -c 4
+ *   ./perplexity report "Ethereum restaking" - Deep-research report into ai/docs/research
+ *   ./perplexity session btc-etf          - Multi-turn research session (resumable)
+ *   ./perplexity cache stats              - Show cached research responses
+ *   ./perplexity usage --by model         - Show token usage and cost
+ *
+ * Research commands (search, news, crypto) reuse cached answers; pass
+ * --refresh to fetch a new one or --no-cache to bypass the cache entirely.
+ *
+ * Sentiment signals are recorded in .ai-tools/signals.jsonl (see ./signals
+ * query); -o appends a copy to another file, written first so a store
+ * problem only gives a warning.
  */
 
 import { Command } from "commander";
 import chalk from "chalk";
-import { writeFileSync, existsSync, readFileSync } from "fs";
-import { createPerplexityClient } from "./perplexity-client";
+import { writeFileSync, readFileSync } from "fs";
+import { createInterface } from "readline";
+import { createPerplexityClient, MarketSentiment, PERPLEXITY_MODELS, PerplexityClient, PerplexityModel, ResearchResult, SearchFilters } from "./perplexity-client";
+import { ResearchSession, SessionMessage } from "./perplexity-session";
+import { RESEARCH_DIR, writeReport } from "./perplexity-report";
+import { LowQualitySourcesError, LowTierPolicy } from "./source-quality";
+import { Citation, SourceTier } from "../shared/citation";
+import { AuthError, BudgetExceededError, NetworkError, RateLimitError, ServerError } from "../shared/errors";
+import { redactSecrets } from "../shared/redact";
+import { ResponseCache } from "../shared/response-cache";
+import { SessionStore } from "../shared/session-store";
+import { Signal, toSignal } from "../shared/signal";
+import { recordSignals } from "../shared/signal-store";
+import { UsageLedger, usageReport } from "../shared/usage-ledger";
 
 const program = new Command();
 
@@ -26,25 +54,26 @@ program
   .command("search <query>")
   .description("Search for information")
   .option("-m, --model <model>", "Model to use (sonar, sonar-pro)", "sonar")
-  .action(async (query: string, options: { model: string }) => {
+  .option("--low-tier <policy>", "Answers relying mostly on low-tier sources: keep, downweight or drop", "keep")
+  .option("-s, --stream", "Print tokens as they arrive")
+  .option("--no-cache", "Don't read or write the response cache")
+  .option("--refresh", "Ignore cached answers and fetch a new one")
+  .option("-o, --output <file>", "Save the result as JSON (e.g. for gemini research --from-perplexity)")
+  .action(async (query: string, options: { model: string; stream?: boolean; output?: string } & ClientFlags) => {
     try {
-      const client = createPerplexityClient();
+      const client = createClient("search", options);
       console.log(chalk.dim(`Searching with ${options.model}...`));
 
-      const result = await client.search(query, options.model as any);
+      const result = await printAnswer("\nAnswer:", options.stream, (onDelta) =>
+        client.search(query, options.model as any, { onDelta })
+      );
 
-      console.log(chalk.bold("\nAnswer:"));
-      console.log(result.answer);
+      printSources(result.citations);
 
-      if (result.citations.length > 0) {
-        console.log(chalk.bold("\nSources:"));
-        result.citations.forEach((c, i) => console.log(`  ${i + 1}. ${c}`));
-      }
-
-      console.log(chalk.dim(`\nTokens used: ${result.tokens_used}`));
+      console.log(chalk.dim(`\nTokens used: ${result.tokens_used}${result.cached ? " (cached)" : ""}`));
+      saveResult(options.output, result);
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -52,59 +81,104 @@ program
   .command("news <topic>")
   .description("Get latest news on a topic")
   .option("-t, --timeframe <timeframe>", "Timeframe for news", "last 24 hours")
-  .action(async (topic: string, options: { timeframe: string }) => {
+  .option("--since <date>", "Only sources published on/after this date (YYYY-MM-DD)")
+  .option("--until <date>", "Only sources published on/before this date (YYYY-MM-DD)")
+  .option("--domains <list>", "Only search these domains (comma-separated)", parseList)
+  .option("--exclude-domains <list>", "Never use these domains (comma-separated, added to the default deny-list)", parseList)
+  .option("--low-tier <policy>", "Answers relying mostly on low-tier sources: keep, downweight or drop", "keep")
+  .option("-s, --stream", "Print tokens as they arrive")
+  .option("--no-cache", "Don't read or write the response cache")
+  .option("--refresh", "Ignore cached answers and fetch a new one")
+  .option("-o, --output <file>", "Save the result as JSON (e.g. for gemini research --from-perplexity)")
+  .action(async (topic: string, options: NewsOptions & ClientFlags) => {
     try {
-      const client = createPerplexityClient();
+      const client = createClient("news", options);
       console.log(chalk.dim(`Fetching news for ${topic}...`));
 
-      const result = await client.searchNews(topic, options.timeframe);
-
-      console.log(chalk.bold(`\nNews: ${topic}`));
-      console.log(result.answer);
+      const result = await printAnswer(`\nNews: ${topic}`, options.stream, (onDelta) =>
+        client.searchNews(topic, options.timeframe, {
+          onDelta,
+          filters: {
+            after: options.since,
+            before: options.until,
+            domains: options.domains,
+            excludeDomains: options.excludeDomains,
+          },
+        })
+      );
 
-      if (result.citations.length > 0) {
-        console.log(chalk.bold("\nSources:"));
-        result.citations.forEach((c, i) => console.log(`  ${i + 1}. ${c}`));
+      if (result.filters) {
+        console.log(chalk.dim(describeFilters(result.filters)));
       }
+
+      printSources(result.citations);
+      saveResult(options.output, result);
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 program
   .command("crypto <symbol>")
   .description("Research a cryptocurrency (e.g., BTC, ETH)")
-  .action(async (symbol: string) => {
+  .option("--low-tier <policy>", "Answers relying mostly on low-tier sources: keep, downweight or drop", "keep")
+  .option("-s, --stream", "Print tokens as they arrive")
+  .option("--no-cache", "Don't read or write the response cache")
+  .option("--refresh", "Ignore cached answers and fetch a new one")
+  .option("-o, --output <file>", "Save the result as JSON (e.g. for gemini research --from-perplexity)")
+  .action(async (symbol: string, options: { stream?: boolean; output?: string } & ClientFlags) => {
     try {
-      const client = createPerplexityClient();
+      const client = createClient("crypto", options);
       console.log(chalk.dim(`Researching ${symbol.toUpperCase()}...`));
 
-      const result = await client.researchCrypto(symbol.toUpperCase());
-
-      console.log(chalk.bold(`\n${symbol.toUpperCase()} Analysis:`));
-      console.log(result.answer);
+      const result = await printAnswer(`\n${symbol.toUpperCase()} Analysis:`, options.stream, (onDelta) =>
+        client.researchCrypto(symbol.toUpperCase(), { onDelta })
+      );
 
-      if (result.citations.length > 0) {
-        console.log(chalk.bold("\nSources:"));
-        result.citations.forEach((c, i) => console.log(`  ${i + 1}. ${c}`));
-      }
+      printSources(result.citations);
+      saveResult(options.output, result);
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
 program
-  .command("sentiment <symbol>")
-  .description("Get market sentiment for a cryptocurrency (returns JSON)")
-  .option("-o, --output <file>", "Save JSON to file (appends to existing signals)")
-  .action(async (symbol: string, options: { output?: string }) => {
+  .command("sentiment [symbols...]")
+  .description("Get market sentiment for one or more cryptocurrencies (returns JSON)")
+  .option("-w, --watchlist <file>", "Read symbols from a JSON file ([\"BTC\", ...] or { \"symbols\": [...] })")
+  .option("-c, --concurrency <n>", "Max symbols analysed at once", "3")
+  .option("--low-tier <policy>", "Answers relying mostly on low-tier sources: keep, downweight or drop", "keep")
+  .option("-o, --output <file>", "Also append the signals to this JSONL file")
+  .action(async (symbols: string[], options: { watchlist?: string; concurrency: string; output?: string } & ClientFlags) => {
     try {
-      const client = createPerplexityClient();
-      console.log(chalk.dim(`Analyzing sentiment for ${symbol.toUpperCase()}...`));
+      const watchlist = [...symbols, ...(options.watchlist ? readWatchlist(options.watchlist) : [])]
+        .map((s) => s.toUpperCase());
+      const unique = [...new Set(watchlist)];
+
+      if (unique.length === 0) {
+        throw new Error("Pass at least one symbol or --watchlist <file>");
+      }
+      const concurrency = parsePositiveInt(options.concurrency, "--concurrency");
 
-      const result = await client.getMarketSentiment(symbol.toUpperCase());
+      const client = createClient("sentiment", options);
+
+      if (unique.length > 1) {
+        await runSentimentBatch(client, unique, concurrency, options.output);
+        return;
+      }
+
+      const symbol = unique[0];
+      console.log(chalk.dim(`Analyzing sentiment for ${symbol}...`));
+
+      const result = await client.getMarketSentiment(symbol);
+
+      // Never display, store or trade on output that failed validation
+      if (result.parse_status === 'invalid') {
+        console.error(chalk.red(`\n✗ ${symbol} sentiment response failed validation:`));
+        result.validation_errors?.forEach((e) => console.error(`  - ${e}`));
+        console.error(chalk.dim(`Raw output: ${result.summary}`));
+        process.exit(1);
+      }
 
       // Add timestamp for tracking
       const signalWithTimestamp = {
@@ -112,59 +186,481 @@ program
         timestamp: new Date().toISOString(),
       };
 
-      // Determine sentiment color for display
-      let sentimentColor;
-      if (result.sentiment === 'bullish') {
-        sentimentColor = chalk.green;
-      } else if (result.sentiment === 'bearish') {
-        sentimentColor = chalk.red;
-      } else {
-        sentimentColor = chalk.yellow;
-      }
-
       // Display results
-      console.log(chalk.bold(`\n${symbol.toUpperCase()} Sentiment:`));
-      console.log(`  Sentiment: ${sentimentColor(result.sentiment.toUpperCase())}`);
+      console.log(chalk.bold(`\n${symbol} Sentiment:`));
+      console.log(`  Sentiment: ${getSentimentColor(result.sentiment)(result.sentiment.toUpperCase())}`);
       console.log(`  Confidence: ${(result.confidence * 100).toFixed(0)}%`);
+      console.log(`  Source quality: ${result.source_quality.score} (${(result.source_quality.low_tier_share * 100).toFixed(0)}% low tier)`);
       console.log(`  Summary: ${result.summary}`);
+      if (result.parse_status === 'repaired') {
+        console.log(chalk.dim("  (valid after re-asking the model)"));
+      }
+
+      if (result.raw_confidence !== undefined) {
+        console.log(chalk.dim(`  (down-weighted from ${(result.raw_confidence * 100).toFixed(0)}% - mostly low-tier sources)`));
+      }
 
       if (result.key_factors.length > 0) {
         console.log(chalk.bold("\nKey Factors:"));
         result.key_factors.forEach((f, i) => console.log(`  ${i + 1}. ${f}`));
       }
 
-      // Save to file if --output specified
-      if (options.output) {
-        let signals: any[] = [];
-
-        // Load existing signals if file exists
-        if (existsSync(options.output)) {
-          try {
-            const existing = readFileSync(options.output, 'utf-8');
-            signals = JSON.parse(existing);
-            if (!Array.isArray(signals)) {
-              signals = [signals]; // Convert single object to array
-            }
-          } catch {
-            signals = []; // Start fresh if file is invalid
-          }
+      printSources(result.citations);
+
+      // Record the signal (and save a copy to --output, if given)
+      const [signal] = saveSignals([signalWithTimestamp], options.output);
+      if (!options.output) {
+        console.log(chalk.bold("\nJSON Output:"));
+        console.log(JSON.stringify(signal, null, 2));
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("report <topic>")
+  .description("Write a deep-research markdown report (thesis, catalysts, risks, fundamentals)")
+  .option("-m, --model <model>", "Model to use", "sonar-deep-research")
+  .option("--since <date>", "Only sources published on/after this date (YYYY-MM-DD)")
+  .option("--domains <list>", "Only search these domains (comma-separated)", parseList)
+  .option("-d, --dir <dir>", "Output directory", RESEARCH_DIR)
+  .option("-s, --stream", "Print the report as it is generated")
+  .action(async (topic: string, options: { model: string; since?: string; domains?: string[]; dir: string; stream?: boolean }) => {
+    try {
+      if (!PERPLEXITY_MODELS.includes(options.model as PerplexityModel)) {
+        throw new Error(`Unknown model "${options.model}" (use ${PERPLEXITY_MODELS.join(", ")})`);
+      }
+
+      const client = createClient("report");
+      console.log(chalk.dim(`Researching "${topic}" with ${options.model} (this can take several minutes)...`));
+
+      const report = await client.researchReport(topic, {
+        model: options.model as PerplexityModel,
+        filters: { after: options.since, domains: options.domains },
+        onDelta: options.stream ? (text) => process.stdout.write(text) : undefined,
+      });
+      if (options.stream) {
+        process.stdout.write("\n");
+      }
+
+      const file = writeReport(report, options.dir);
+
+      console.log(chalk.green(`\n✓ Report saved to ${file}`));
+      console.log(chalk.dim(`Sources: ${report.citations.length}, tokens: ${report.usage.total_tokens}, estimated cost: $${report.cost_usd.toFixed(4)}`));
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("session [name]")
+  .description("Interactive multi-turn research session (resumes if the name exists)")
+  .option("-m, --model <model>", "Model for new sessions", "sonar-pro")
+  .option("-l, --list", "List saved sessions")
+  .option("--max-history-tokens <n>", "Token budget for history sent with each question", "4000")
+  .action(async (name: string | undefined, options: { model: string; list?: boolean; maxHistoryTokens: string }) => {
+    try {
+      if (options.list) {
+        const sessions = new SessionStore<SessionMessage>("perplexity").list();
+        if (sessions.length === 0) {
+          console.log(chalk.dim("No saved sessions."));
         }
+        sessions.forEach((s) =>
+          console.log(`  ${chalk.bold(s.name)}  ${chalk.dim(`${s.model}, ${s.messages} messages, updated ${s.updated_at}`)}`)
+        );
+        return;
+      }
+
+      if (!PERPLEXITY_MODELS.includes(options.model as PerplexityModel)) {
+        throw new Error(`Unknown model "${options.model}" (use ${PERPLEXITY_MODELS.join(", ")})`);
+      }
 
-        // Append new signal
-        signals.push(signalWithTimestamp);
+      const session = ResearchSession.open(
+        createClient("session"),
+        name || `session-${new Date().toISOString().slice(0, 16).replace(/[-:T]/g, "")}`,
+        { model: options.model as PerplexityModel, maxHistoryTokens: parsePositiveInt(options.maxHistoryTokens, "--max-history-tokens") }
+      );
 
-        // Write back to file
-        writeFileSync(options.output, JSON.stringify(signals, null, 2));
-        console.log(chalk.green(`\n✓ Saved to ${options.output} (${signals.length} signals total)`));
-      } else {
-        console.log(chalk.bold("\nJSON Output:"));
-        console.log(JSON.stringify(signalWithTimestamp, null, 2));
+      const turns = session.messages.filter((m) => m.role === "user").length;
+      console.log(chalk.bold(`Session: ${session.name}`) + chalk.dim(` (${session.model}, ${turns} earlier questions)`));
+      console.log(chalk.dim("Type a question, or /help for commands.\n"));
+
+      await runSession(session);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("usage")
+  .description("Show token usage and cost across providers")
+  .option("-b, --by <group>", "Group by day, model, command or provider", "day")
+  .option("--since <date>", "Only include calls on or after this date (YYYY-MM-DD or ISO time)")
+  .action((options: { by: string; since?: string }) => {
+    try {
+      const report = usageReport(options.by, options.since);
+      if (report.table.length === 0) {
+        console.log(chalk.dim("No usage recorded yet."));
+        return;
+      }
+
+      console.log(chalk.bold(report.heading));
+      report.table.forEach((line) => console.log(`  ${line}`));
+      if (report.budget.length > 0) {
+        console.log(chalk.dim(`\n${report.budget.join("\n")}`));
       }
     } catch (error) {
-      console.error(chalk.red("Error:"), error instanceof Error ? error.message : String(error));
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+const cache = program
+  .command("cache")
+  .description("Manage the local research response cache");
+
+cache
+  .command("stats")
+  .description("Show how many responses are cached")
+  .action(() => {
+    const stats = new ResponseCache("perplexity").stats();
+
+    console.log(chalk.bold("Perplexity Cache:"));
+    console.log(`  Directory: ${stats.dir}`);
+    console.log(`  Entries: ${stats.entries} (${stats.fresh} fresh, ${stats.expired} expired)`);
+    console.log(`  Size: ${(stats.bytes / 1024).toFixed(1)} KB`);
+    if (stats.oldest && stats.newest) {
+      console.log(`  Oldest: ${stats.oldest}`);
+      console.log(`  Newest: ${stats.newest}`);
+    }
+  });
+
+cache
+  .command("clear")
+  .description("Delete cached responses")
+  .option("--expired", "Only delete expired entries")
+  .action((options: { expired?: boolean }) => {
+    const removed = new ResponseCache("perplexity").clear({ expiredOnly: options.expired });
+    console.log(chalk.green(`✓ Removed ${removed} cached response${removed === 1 ? "" : "s"}`));
+  });
+
+/**
+ * Analyse a watchlist with bounded concurrency and print one combined result set
+ *
+ * Symbols that fail (request error or invalid output) are listed separately
+ * and make the process exit non-zero after the others have been saved.
+ */
+async function runSentimentBatch(client: PerplexityClient, symbols: string[], concurrency: number, output?: string) {
+  console.log(chalk.dim(`Analyzing sentiment for ${symbols.length} symbols (${concurrency} at a time)...`));
+
+  const batch = await client.getMarketSentimentBatch(symbols, {
+    concurrency,
+    onResult: (symbol, result) =>
+      console.log(chalk.dim(`  ${result instanceof Error ? "✗" : "✓"} ${symbol}`)),
+  });
+
+  // Invalid responses are errors too - never store them as signals
+  const timestamp = new Date().toISOString();
+  const signals = batch.results
+    .filter((r) => r.parse_status !== "invalid")
+    .map((r) => ({ ...r, timestamp }));
+  const errors = [
+    ...batch.errors,
+    ...batch.results
+      .filter((r) => r.parse_status === "invalid")
+      .map((r) => ({ symbol: r.symbol, error: `invalid response: ${(r.validation_errors || []).join("; ")}` })),
+  ];
+
+  // Summary table
+  console.log(chalk.bold("\nWatchlist Sentiment:"));
+  console.log(chalk.dim(`  ${"SYMBOL".padEnd(8)}${"SENTIMENT".padEnd(11)}${"CONF".padStart(5)}  SUMMARY`));
+  signals.forEach((r) => {
+    const sentiment = getSentimentColor(r.sentiment)(r.sentiment.toUpperCase().padEnd(11));
+    const confidence = `${(r.confidence * 100).toFixed(0)}%`.padStart(5);
+    console.log(`  ${r.symbol.padEnd(8)}${sentiment}${confidence}  ${truncate(r.summary, 60)}`);
+  });
+
+  if (errors.length > 0) {
+    console.log(chalk.bold.red("\nErrors:"));
+    errors.forEach((e) => console.log(`  ${e.symbol.padEnd(8)}${e.error}`));
+  }
+
+  const stored = saveSignals(signals, output);
+  if (!output) {
+    console.log(chalk.bold("\nJSON Output:"));
+    console.log(JSON.stringify({ timestamp, results: stored, errors }, null, 2));
+  }
+
+  if (errors.length > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Read symbols from a watchlist file
+ * Accepts a JSON array of symbols or an object with a `symbols` array.
+ */
+function readWatchlist(filepath: string): string[] {
+  const parsed = JSON.parse(readFileSync(filepath, "utf-8"));
+  const symbols = Array.isArray(parsed) ? parsed : parsed?.symbols;
+
+  if (!Array.isArray(symbols) || !symbols.every((s) => typeof s === "string")) {
+    throw new Error(`Watchlist ${filepath} must be a JSON array of symbols or { "symbols": [...] }`);
+  }
+  return symbols;
+}
+
+/**
+ * Record sentiment results as Signals in the signal store (.ai-tools/signals.jsonl)
+ * With --output, append them to that file first; a store failure is only a warning.
+ */
+function saveSignals(results: Array<MarketSentiment & { timestamp: string }>, filepath?: string): Signal[] {
+  const stored = results.map((result) => toSignal(result, "perplexity"));
+  recordSignals(stored, {
+    output: filepath,
+    onStoreError: (error) => console.warn(chalk.yellow(`⚠ Not recorded in the signal store: ${error.message}`)),
+  });
+
+  if (filepath) {
+    console.log(chalk.green(`\n✓ Saved to ${filepath} (${stored.length} signal${stored.length === 1 ? "" : "s"} appended)`));
+  }
+  return stored;
+}
+
+/**
+ * Save a research result as JSON (overwrites), if a file was given
+ */
+function saveResult(filepath: string | undefined, result: ResearchResult) {
+  if (!filepath) {
+    return;
+  }
+
+  writeFileSync(filepath, JSON.stringify(result, null, 2));
+  console.log(chalk.green(`\n✓ Saved to ${filepath}`));
+}
+
+/**
+ * Get chalk color function based on sentiment
+ */
+function getSentimentColor(sentiment: string) {
+  switch (sentiment) {
+    case "bullish":
+      return chalk.green;
+    case "bearish":
+      return chalk.red;
+    default:
+      return chalk.yellow;
+  }
+}
+
+/**
+ * Shorten text to fit a table column
+ */
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Read questions and slash-commands until /exit or end of input
+ */
+async function runSession(session: ResearchSession): Promise<void> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: chalk.cyan("> ") });
+  rl.prompt();
+
+  for await (const line of rl) {
+    const input = line.trim();
+
+    if (!input) {
+      // Nothing to do
+    } else if (input === "/exit" || input === "/quit") {
+      break;
+    } else if (input === "/help") {
+      console.log("  /model <name>  Switch model (" + PERPLEXITY_MODELS.join(", ") + ")");
+      console.log("  /save          Save the transcript as markdown in ai/docs/research");
+      console.log("  /history       Show how much history is sent with each question");
+      console.log("  /exit          Leave the session (it is saved after every answer)");
+    } else if (input.startsWith("/model")) {
+      const model = input.split(/\s+/)[1];
+      if (PERPLEXITY_MODELS.includes(model as PerplexityModel)) {
+        session.model = model as PerplexityModel;
+        console.log(chalk.dim(`Switched to ${model}`));
+      } else {
+        console.log(chalk.red(`Unknown model "${model ?? ""}" (use ${PERPLEXITY_MODELS.join(", ")})`));
+      }
+    } else if (input === "/save") {
+      console.log(chalk.green(`✓ Saved transcript to ${session.writeMarkdown()}`));
+    } else if (input === "/history") {
+      console.log(chalk.dim(`${session.messages.length} messages saved, ~${session.historyTokens()} of ${session.maxHistoryTokens} history tokens sent per question`));
+    } else if (input.startsWith("/")) {
+      console.log(chalk.red(`Unknown command ${input} - try /help`));
+    } else {
+      try {
+        const result = await session.ask(input, (text) => process.stdout.write(text));
+        process.stdout.write("\n");
+
+        printSources(result.citations);
+        console.log(chalk.dim(`\nTokens used: ${result.tokens_used}\n`));
+      } catch (error) {
+        // Keep the session open - the question was not saved and can be retried
+        console.error(chalk.red("Error:"), redactSecrets(error instanceof Error ? error.message : String(error)));
+      }
     }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
+
+/** Options for the news command */
+interface NewsOptions {
+  timeframe: string;
+  since?: string;
+  until?: string;
+  domains?: string[];
+  excludeDomains?: string[];
+  stream?: boolean;
+  output?: string;
+}
+
+/**
+ * Parse a comma-separated option value into a list
+ */
+function parseList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a numeric option that must be a whole number >= 1
+ */
+function parsePositiveInt(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`${flag} must be a whole number >= 1 (got "${value}")`);
+  }
+  return n;
+}
+
+/**
+ * One-line summary of the search filters an answer was produced with
+ */
+function describeFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+  if (filters.recency) parts.push(`past ${filters.recency}`);
+  if (filters.after) parts.push(`after ${filters.after}`);
+  if (filters.before) parts.push(`before ${filters.before}`);
+  if (filters.domains?.length) parts.push(`only ${filters.domains.join(", ")}`);
+  if (filters.excludeDomains?.length) parts.push(`excluding ${filters.excludeDomains.length} domains`);
+  return `Filters: ${parts.length > 0 ? parts.join("; ") : "none"}`;
+}
+
+/** Client flags shared by the research commands */
+interface ClientFlags {
+  cache?: boolean;     // true unless --no-cache is passed (undefined = command has no cache)
+  refresh?: boolean;
+  lowTier?: string;    // keep, downweight or drop
+}
+
+/**
+ * Create a client that records usage under the given command name
+ * Uses the on-disk cache for commands that support it unless --no-cache was passed.
+ */
+function createClient(command: string, flags: ClientFlags = {}): PerplexityClient {
+  if (flags.lowTier && !["keep", "downweight", "drop"].includes(flags.lowTier)) {
+    throw new Error(`Unknown --low-tier policy "${flags.lowTier}" (use keep, downweight or drop)`);
+  }
+
+  return createPerplexityClient(undefined, {
+    cache: flags.cache ? new ResponseCache("perplexity") : undefined,
+    refreshCache: flags.refresh,
+    lowTierPolicy: flags.lowTier as LowTierPolicy | undefined,
+    ledger: new UsageLedger({ command: `perplexity ${command}` }),
+  });
+}
+
+/**
+ * Print rated sources: tier, domain, date and title, then the URL
+ */
+function printSources(citations: Citation[]) {
+  if (citations.length === 0) {
+    return;
+  }
+
+  console.log(chalk.bold("\nSources:"));
+  citations.forEach((c, i) => {
+    const date = c.date ? chalk.dim(` (${c.date})`) : "";
+    const title = c.title ? ` - ${c.title}` : "";
+    console.log(`  ${i + 1}. ${getTierColor(c.tier)(`[${c.tier}]`)} ${c.domain}${date}${title}`);
+    console.log(chalk.dim(`     ${c.url}`));
   });
+}
+
+/**
+ * Get chalk color function based on source tier
+ */
+function getTierColor(tier: SourceTier) {
+  switch (tier) {
+    case "high":
+      return chalk.green;
+    case "medium":
+      return chalk.cyan;
+    case "low":
+      return chalk.red;
+    default:
+      return chalk.yellow;
+  }
+}
+
+/**
+ * Print a heading and the answer of a research call
+ *
+ * When streaming, the heading is printed first and tokens are written as
+ * they arrive; otherwise the full answer is printed once the call returns.
+ */
+async function printAnswer(
+  heading: string,
+  stream: boolean | undefined,
+  run: (onDelta?: (text: string) => void) => Promise<ResearchResult>
+): Promise<ResearchResult> {
+  let result: ResearchResult;
+
+  if (stream) {
+    console.log(chalk.bold(heading));
+    result = await run((text) => process.stdout.write(text));
+    process.stdout.write("\n");
+  } else {
+    result = await run();
+    console.log(chalk.bold(heading));
+    console.log(result.answer);
+  }
+
+  if (result.cached) {
+    console.log(chalk.dim(`(cached answer from ${result.cached_at})`));
+  }
+
+  return result;
+}
+
+/**
+ * Print an error (with a hint for known API failures) and exit
+ */
+function exitWithError(error: unknown): never {
+  console.error(chalk.red("Error:"), redactSecrets(error instanceof Error ? error.message : String(error)));
+
+  if (error instanceof AuthError) {
+    console.error(chalk.dim("Hint: check PERPLEXITY_API_KEY in .envrc or .ai-tools/config.json"));
+  } else if (error instanceof RateLimitError) {
+    console.error(chalk.dim("Hint: rate limited by Perplexity (on every configured key) - wait a minute and try again"));
+  } else if (error instanceof ServerError || error instanceof NetworkError) {
+    console.error(chalk.dim("Hint: Perplexity is unreachable or overloaded - try again later"));
+  } else if (error instanceof LowQualitySourcesError) {
+    console.error(chalk.dim("Hint: pass --low-tier keep or downweight to accept the answer anyway"));
+  } else if (error instanceof BudgetExceededError) {
+    console.error(chalk.dim("Hint: raise AI_TOOLS_{DAILY,MONTHLY}_BUDGET_USD or check ./perplexity usage"));
+  }
+
+  process.exit(1);
+}
 
 program.parse(process.argv);
 
@@ -11,6 +11,44 @@
  * - sonar-reasoning: Multi-step analysis (higher cost)
  * - sonar-deep-research: Comprehensive reports (highest cost)
  *
+ * Streaming:
+ * - chatStream() yields text deltas as they arrive (useful for slow models
+ *   like sonar-reasoning and sonar-deep-research)
+ * - search(), searchNews() and researchCrypto() stream when given `onDelta`
+ *
+ * Reports:
+ * - researchReport() runs sonar-deep-research with a fixed outline
+ *   (thesis, catalysts, risks, on-chain/fundamentals); perplexity-report.ts
+ *   turns the result into a dated markdown file in ai/docs/research
+ *
+ * Citations:
+ * - Results carry Citation objects (URL, domain, title, date, credibility tier)
+ *   and a `source_quality` score - see source-quality.ts
+ * - `lowTierPolicy` can down-weight or drop answers that rely mostly on
+ *   low-tier sources
+ *
+ * Search filters:
+ * - Recency, after/before dates and domain allow/deny lists are sent as
+ *   real API filters (not just prompt text)
+ * - searchNews() excludes DEFAULT_NEWS_EXCLUDE_DOMAINS unless given an allow-list
+ * - An allow-list and a deny-list can't be combined, and each request takes
+ *   at most 20 domains - both are rejected before anything is sent
+ *
+ * Caching (optional):
+ * - Pass a ResponseCache to reuse answers for identical requests
+ * - Keyed by model, messages and temperature; TTL depends on the method
+ *   (news: 15 minutes, crypto: 1 hour by default)
+ *
+ * Usage tracking (optional):
+ * - Pass a UsageLedger to record tokens and cost of every call
+ * - Calls are refused with BudgetExceededError once the ledger's budget is used up
+ *
+ * Reliability:
+ * - Requests go through a token-bucket rate limiter (50 requests/minute by default)
+ * - 429, 5xx and network errors are retried with exponential backoff
+ * - With several API keys, a 429 switches to the next key (see ../shared/credentials)
+ * - Failures throw typed errors from ../shared/errors (RateLimitError, AuthError, ...)
+ *
  * Usage:
  *   const client = createPerplexityClient();
  *   const result = await client.searchNews('Bitcoin');
@@ -18,6 +56,25 @@
  * @see https://docs.perplexity.ai/
  */
 
+import { TokenBucket, RateLimitOptions } from '../shared/rate-limiter';
+import { fetchWithRetry, FetchWithRetryOptions, RetryOptions } from '../shared/retry';
+import { KeyRing, loadApiKeys, missingKeyError } from '../shared/credentials';
+import { parseSSE } from '../shared/sse';
+import { ResponseCache } from '../shared/response-cache';
+import { UsageLedger } from '../shared/usage-ledger';
+import { extractJson, JsonSchema, ParseStatus, validateSchema } from '../shared/schema';
+import { mapWithConcurrency } from '../shared/concurrency';
+import { estimateCost, ExtraUsage } from '../shared/pricing';
+import { AGGREGATOR_DOMAINS, Citation, SourceTiers } from '../shared/citation';
+import {
+  assessSourceQuality,
+  buildCitations,
+  loadSourceTiers,
+  LowQualitySourcesError,
+  LowTierPolicy,
+  SourceQuality,
+} from './source-quality';
+
 // ============================================================================
 // Types - Define the shape of data we work with
 // ============================================================================
@@ -25,10 +82,56 @@
 /** Available Perplexity models - use sonar for speed, sonar-pro for quality */
 export type PerplexityModel = 'sonar' | 'sonar-pro' | 'sonar-reasoning' | 'sonar-deep-research';
 
+/** Every PerplexityModel, for validating user input */
+export const PERPLEXITY_MODELS: PerplexityModel[] = ['sonar', 'sonar-pro', 'sonar-reasoning', 'sonar-deep-research'];
+
 /** Configuration for the Perplexity client */
 export interface PerplexityConfig {
-  apiKey: string;                    // Your Perplexity API key
+  apiKey: string | string[];         // Your Perplexity API key (several are rotated on 429)
   defaultModel?: PerplexityModel;    // Default model to use (defaults to 'sonar')
+  retry?: RetryOptions;              // Backoff settings for transient failures
+  rateLimit?: RateLimitOptions;      // Client-side request rate (defaults to 50/min)
+  cache?: ResponseCache;             // Cache research results on disk (off when omitted)
+  cacheTtl?: Partial<CacheTtl>;      // Override cache TTLs per method
+  refreshCache?: boolean;            // Skip cache reads but still store fresh results
+  ledger?: UsageLedger;              // Record usage and enforce budgets (off when omitted)
+  newsExcludeDomains?: string[];     // Override the default news deny-list ([] to disable)
+  sourceTiers?: SourceTiers;         // Domain credibility tiers (defaults to loadSourceTiers())
+  lowTierPolicy?: LowTierPolicy;     // keep (default), downweight or drop low-tier answers
+  maxLowTierShare?: number;          // Share of low-tier sources that triggers the policy (default: 0.5)
+}
+
+/** Search recency windows supported by the API */
+export type SearchRecency = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/** Filters applied by Perplexity's search step before the model answers */
+export interface SearchFilters {
+  recency?: SearchRecency;           // Only sources published within this window
+  after?: string;                    // Only sources published on/after this date (YYYY-MM-DD)
+  before?: string;                   // Only sources published on/before this date (YYYY-MM-DD)
+  domains?: string[];                // Allow-list: only search these domains
+  excludeDomains?: string[];         // Deny-list: never use these domains
+}
+
+/** How long cached results stay fresh, in ms, per research method */
+export interface CacheTtl {
+  search: number;
+  news: number;
+  crypto: number;
+}
+
+/** Structured output mode - the response must match the given JSON schema */
+export interface ResponseFormat {
+  type: 'json_schema';
+  json_schema: { schema: JsonSchema };
+}
+
+/** Per-request settings for chat() and chatStream() */
+export interface ChatOptions {
+  model?: PerplexityModel;
+  temperature?: number;
+  responseFormat?: ResponseFormat;   // Ask for JSON matching a schema
+  filters?: SearchFilters;           // Restrict which sources are searched
 }
 
 /** A single message in a chat conversation */
@@ -52,17 +155,66 @@ export interface PerplexityResponse {
     prompt_tokens: number;
     completion_tokens: number;
     total_tokens: number;
+    citation_tokens?: number;        // Deep research: tokens read from sources
+    reasoning_tokens?: number;       // Reasoning models: tokens spent thinking
+    num_search_queries?: number;     // Deep research: searches performed
   };
   citations?: string[];              // Source URLs for the information
+  search_results?: PerplexitySearchResult[];  // Titles and dates for the sources
+}
+
+/** Metadata for one source the search step found */
+export interface PerplexitySearchResult {
+  title: string;
+  url: string;
+  date?: string | null;              // Publication date, when known
+  last_updated?: string | null;
+}
+
+/** One server-sent chunk from a streaming chat completion */
+export interface PerplexityStreamChunk {
+  id: string;
+  model: string;
+  choices: {
+    delta: {
+      role?: string;
+      content?: string;              // Text added since the previous chunk
+    };
+    finish_reason: string | null;    // Set on the last chunk only
+  }[];
+  usage?: PerplexityResponse['usage'];  // Usually only on the last chunk
+  citations?: string[];
+  search_results?: PerplexitySearchResult[];
+}
+
+/**
+ * A streaming chat completion
+ *
+ * Iterate it to receive text deltas; `response` resolves with the assembled
+ * response (full content, citations, usage) once iteration finishes.
+ */
+export interface ChatStream extends AsyncIterable<string> {
+  response: Promise<PerplexityResponse>;
+}
+
+/** Options shared by the high-level research methods */
+export interface SearchOptions {
+  onDelta?: (text: string) => void;  // Stream the answer, calling this per delta
+  cacheTtlMs?: number;               // How long to cache this result (if caching is on)
+  filters?: SearchFilters;           // Restrict which sources are searched
 }
 
 /** Simplified result from a research query */
 export interface ResearchResult {
   query: string;           // The original query
   answer: string;          // The AI's response
-  citations: string[];     // Source URLs
+  citations: Citation[];   // Rated sources
+  source_quality: SourceQuality;  // How trustworthy the sources are overall
   model: string;           // Model used
   tokens_used: number;     // Total tokens consumed
+  filters?: SearchFilters; // Search filters the answer was produced with
+  cached?: boolean;        // True if served from the local cache
+  cached_at?: string;      // When the cached answer was originally fetched
 }
 
 /** Structured market sentiment analysis */
@@ -72,13 +224,80 @@ export interface MarketSentiment {
   confidence: number;                              // 0.0 to 1.0
   summary: string;                                 // One-sentence summary
   key_factors: string[];                           // Factors driving sentiment
-  citations: string[];                             // Source URLs
+  citations: Citation[];                           // Rated sources
+  source_quality: SourceQuality;                   // How trustworthy the sources are overall
+  raw_confidence?: number;                         // Model's confidence before down-weighting
+  parse_status: ParseStatus;                       // 'invalid' = model output never validated
+  model: string;                                   // Model that answered (e.g. 'sonar-pro')
+  prompt_version: string;                          // Bumped whenever the prompt changes
+  validation_errors?: string[];                    // What was wrong, when invalid
+}
+
+/** Options for researchReport() */
+export interface ReportOptions {
+  model?: PerplexityModel;           // Defaults to 'sonar-deep-research'
+  filters?: SearchFilters;           // Restrict which sources are searched
+  onDelta?: (text: string) => void;  // Progress: called per streamed text delta
+}
+
+/** A deep-research report (see perplexity-report.ts for the markdown file) */
+export interface ResearchReport {
+  topic: string;
+  content: string;                   // Markdown sections with [n] citation markers
+  citations: Citation[];             // Rated sources; [n] refers to citations[n - 1]
+  model: string;
+  usage: PerplexityResponse['usage'];
+  cost_usd: number;                  // Estimated from token counts and search queries
+  generated_at: string;              // ISO timestamp
+}
+
+/** Combined outcome of getMarketSentimentBatch() */
+export interface SentimentBatchResult {
+  results: MarketSentiment[];                      // Symbols that returned a response
+  errors: { symbol: string; error: string }[];     // Symbols whose request failed
 }
 
 // ============================================================================
 // Client Implementation
 // ============================================================================
 
+/** Perplexity's default tier allows 50 requests per minute for sonar models */
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { requestsPerMinute: 50, burst: 5 };
+
+/** News goes stale quickly; broader crypto research can be reused for longer */
+const DEFAULT_CACHE_TTL: CacheTtl = {
+  search: 15 * 60_000,
+  news: 15 * 60_000,
+  crypto: 60 * 60_000,
+};
+
+/** Low-quality crypto news sites excluded from searchNews() by default (the low tier's aggregators) */
+export const DEFAULT_NEWS_EXCLUDE_DOMAINS = AGGREGATOR_DOMAINS;
+
+/** Most domains the API accepts in one search_domain_filter */
+const MAX_DOMAIN_FILTERS = 20;
+
+/** Bump when the cached ResearchResult shape changes, so old entries are ignored */
+const CACHE_VERSION = 2;
+
+/** Low temperature = more focused answers */
+const DEFAULT_TEMPERATURE = 0.2;
+
+/** Stored with every sentiment - bump when the sentiment prompt changes */
+const SENTIMENT_PROMPT_VERSION = 'perplexity-sentiment/1';
+
+/** Shape getMarketSentiment() asks for and validates against */
+const SENTIMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    sentiment: { type: 'string', enum: ['bullish', 'bearish', 'neutral'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    summary: { type: 'string', minLength: 1 },
+    key_factors: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+  },
+  required: ['sentiment', 'confidence', 'summary', 'key_factors'],
+};
+
 /**
  * Perplexity API Client
  *
@@ -86,90 +305,269 @@ export interface MarketSentiment {
  * Use the factory function `createPerplexityClient()` to create instances.
  */
 export class PerplexityClient {
-  private apiKey: string;
+  private keys: KeyRing;
   private defaultModel: PerplexityModel;
   private baseUrl = 'https://api.perplexity.ai';
+  private retry: RetryOptions;
+  private limiter: TokenBucket;
+  private cache?: ResponseCache;
+  private cacheTtl: CacheTtl;
+  private refreshCache: boolean;
+  private ledger?: UsageLedger;
+  private newsExcludeDomains: string[];
+  private sourceTiers: SourceTiers;
+  private lowTierPolicy: LowTierPolicy;
+  private maxLowTierShare: number;
 
   constructor(config: PerplexityConfig) {
-    this.apiKey = config.apiKey;
+    this.keys = new KeyRing('perplexity', ([] as string[]).concat(config.apiKey));
     this.defaultModel = config.defaultModel || 'sonar';
+    this.retry = config.retry || {};
+    this.limiter = new TokenBucket(config.rateLimit || DEFAULT_RATE_LIMIT);
+    this.cache = config.cache;
+    this.cacheTtl = { ...DEFAULT_CACHE_TTL, ...config.cacheTtl };
+    this.refreshCache = config.refreshCache || false;
+    this.ledger = config.ledger;
+    this.newsExcludeDomains = config.newsExcludeDomains ?? DEFAULT_NEWS_EXCLUDE_DOMAINS;
+    this.sourceTiers = config.sourceTiers || loadSourceTiers();
+    this.lowTierPolicy = config.lowTierPolicy || 'keep';
+    this.maxLowTierShare = config.maxLowTierShare ?? 0.5;
   }
 
   /**
    * Send a chat completion request to Perplexity
    *
    * This is the low-level method - use search(), searchNews(), etc. for convenience.
+   * Transient failures (429, 5xx, network) are retried before giving up.
    *
    * @param messages - Array of conversation messages
-   * @param options - Model and temperature settings
+   * @param options - Model, temperature, structured-output and search filter settings
    * @returns Raw API response
+   * @throws ApiError subclass (see ../shared/errors) if the request fails
+   * @throws BudgetExceededError if the ledger's budget is used up
    */
-  async chat(
-    messages: ChatMessage[],
-    options: { model?: PerplexityModel; temperature?: number } = {}
-  ): Promise<PerplexityResponse> {
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<PerplexityResponse> {
     const model = options.model || this.defaultModel;
+    this.ledger?.assertWithinBudget();
 
-    // Make the API request
-    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+    // Make the API request (rate limited, retried on transient errors)
+    const response = await fetchWithRetry(`${this.baseUrl}/chat/completions`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model,
         messages,
-        temperature: options.temperature ?? 0.2,  // Low temp = more focused answers
+        temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+        response_format: options.responseFormat,
+        ...searchFilterParams(options.filters),
       }),
+    }, this.fetchOptions());
+
+    const result: PerplexityResponse = await response.json();
+    this.recordUsage(result);
+    return result;
+  }
+
+  /**
+   * Stream a chat completion as server-sent events
+   *
+   * Same request as chat(), but with `stream: true`. The request is only
+   * sent once iteration starts, and `response` only settles once the
+   * iteration has finished, so always consume the stream.
+   *
+   * @param messages - Array of conversation messages
+   * @param options - Model, temperature, structured-output and search filter settings
+   * @returns Async iterable of text deltas with a `response` promise
+   *
+   * @example
+   *   const stream = client.chatStream([{ role: 'user', content: 'BTC news?' }]);
+   *   for await (const text of stream) process.stdout.write(text);
+   *   const { citations, usage } = await stream.response;
+   */
+  chatStream(messages: ChatMessage[], options: ChatOptions = {}): ChatStream {
+    const model = options.model || this.defaultModel;
+
+    let resolve!: (response: PerplexityResponse) => void;
+    let reject!: (error: unknown) => void;
+    const response = new Promise<PerplexityResponse>((res, rej) => {
+      resolve = res;
+      reject = rej;
     });
+    response.catch(() => {});  // Errors are also thrown from the iterator
+
+    // Arrow functions keep `this` for use inside the generator below
+    const recordUsage = (result: PerplexityResponse) => this.recordUsage(result);
+    const request = async () => {
+      this.ledger?.assertWithinBudget();
+      return fetchWithRetry(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+          response_format: options.responseFormat,
+          ...searchFilterParams(options.filters),
+          stream: true,
+        }),
+      }, this.fetchOptions());
+    };
+
+    async function* deltas(): AsyncGenerator<string> {
+      try {
+        const res = await request();
+        let content = '';
+        let last: PerplexityStreamChunk | undefined;
+        let usage: PerplexityResponse['usage'] | undefined;
+        let citations: string[] | undefined;
+        let searchResults: PerplexitySearchResult[] | undefined;
+
+        for await (const data of parseSSE(res.body!)) {
+          if (data === '[DONE]') {
+            break;
+          }
+
+          const chunk: PerplexityStreamChunk = JSON.parse(data);
+          last = chunk;
+          usage = chunk.usage || usage;
+          citations = chunk.citations || citations;
+          searchResults = chunk.search_results || searchResults;
 
-    // Handle errors
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Perplexity API error: ${response.status} - ${error}`);
+          const delta = chunk.choices[0]?.delta.content;
+          if (delta) {
+            content += delta;
+            yield delta;
+          }
+        }
+
+        const result: PerplexityResponse = {
+          id: last?.id || '',
+          model: last?.model || model,
+          choices: [{
+            message: { role: 'assistant', content },
+            finish_reason: last?.choices[0]?.finish_reason || 'stop',
+          }],
+          usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+          citations,
+          search_results: searchResults,
+        };
+        recordUsage(result);
+        resolve(result);
+      } catch (error) {
+        reject(error);
+        throw error;
+      }
     }
 
-    return response.json();
+    return Object.assign(deltas(), { response });
   }
 
   /**
    * Simple search query
    *
+   * If the client has a cache, a fresh cached answer is returned instead
+   * of calling the API (and replayed through `onDelta` when streaming).
+   *
    * @param query - What to search for
    * @param model - Which model to use (optional)
+   * @param options - Search filters, and `onDelta` to stream the answer as it is generated
    * @returns Simplified research result
    */
-  async search(query: string, model?: PerplexityModel): Promise<ResearchResult> {
-    const response = await this.chat(
-      [{ role: 'user', content: query }],
-      { model }
-    );
+  async search(query: string, model?: PerplexityModel, options: SearchOptions = {}): Promise<ResearchResult> {
+    const messages: ChatMessage[] = [{ role: 'user', content: query }];
+    const filters = options.filters;
+    const cacheKey = this.cache?.key({
+      version: CACHE_VERSION,
+      model: model || this.defaultModel,
+      messages,
+      temperature: DEFAULT_TEMPERATURE,
+      filters,
+    });
 
-    return {
+    // Serve from cache unless a refresh was requested
+    if (this.cache && cacheKey && !this.refreshCache) {
+      const hit = this.cache.get<ResearchResult>(cacheKey);
+      if (hit) {
+        this.applyLowTierPolicy(`Answer to "${query.slice(0, 40)}"`, hit.value.source_quality);
+        options.onDelta?.(hit.value.answer);
+        return { ...hit.value, cached: true, cached_at: hit.created_at };
+      }
+    }
+
+    let response: PerplexityResponse;
+
+    if (options.onDelta) {
+      const stream = this.chatStream(messages, { model, filters });
+      for await (const text of stream) {
+        options.onDelta(text);
+      }
+      response = await stream.response;
+    } else {
+      response = await this.chat(messages, { model, filters });
+    }
+
+    const citations = this.citationsFor(response);
+    const result: ResearchResult = {
       query,
       answer: response.choices[0]?.message.content || '',
-      citations: response.citations || [],
+      citations,
+      source_quality: assessSourceQuality(citations),
       model: response.model,
       tokens_used: response.usage.total_tokens,
+      filters,
     };
+
+    if (this.cache && cacheKey) {
+      this.cache.set(cacheKey, result, options.cacheTtlMs ?? this.cacheTtl.search);
+    }
+
+    this.applyLowTierPolicy(`Answer to "${query.slice(0, 40)}"`, result.source_quality);
+    return result;
   }
 
   /**
    * Search for latest news on a topic
    *
-   * Uses the fast 'sonar' model for quick news lookups.
+   * Uses the fast 'sonar' model for quick news lookups. The timeframe is
+   * also sent as a recency filter (e.g. 'last 24 hours' -> 'day') unless
+   * explicit after/before dates are given, and the default deny-list is
+   * applied unless an allow-list (`filters.domains`) is given.
    *
    * @param topic - What to search news for (e.g., 'Bitcoin', 'Ethereum DeFi')
    * @param timeframe - How far back to look (default: 'last 24 hours')
-   * @returns News summary with sources
+   * @param options - Search filters, and `onDelta` to stream the answer
+   * @returns News summary with sources (and the filters that were applied)
    */
-  async searchNews(topic: string, timeframe: string = 'last 24 hours'): Promise<ResearchResult> {
+  async searchNews(topic: string, timeframe: string = 'last 24 hours', options: SearchOptions = {}): Promise<ResearchResult> {
+    const requested = options.filters || {};
+    const filters: SearchFilters = { ...requested };
+
+    // Dates win over recency - the API doesn't allow both
+    if (!filters.after && !filters.before) {
+      filters.recency = filters.recency || recencyFromTimeframe(timeframe);
+    } else {
+      delete filters.recency;
+      timeframe = describeDateWindow(filters.after, filters.before);
+    }
+
+    // The API takes either an allow-list or a deny-list, not both. The caller's
+    // exclusions come first; defaults that don't fit under the domain cap are dropped.
+    if (!filters.domains?.length) {
+      const requestedExclude = filters.excludeDomains || [];
+      const defaults = this.newsExcludeDomains.slice(0, Math.max(0, MAX_DOMAIN_FILTERS - requestedExclude.length));
+      const exclude = [...new Set([...requestedExclude, ...defaults])];
+      filters.excludeDomains = exclude.length > 0 ? exclude : undefined;
+    }
+
     const query = `What are the latest news and developments about ${topic} in the ${timeframe}?
     Focus on market-moving events, price action, and significant announcements.
     Be concise and factual.`;
 
-    return this.search(query, 'sonar');
+    return this.search(query, 'sonar', { cacheTtlMs: this.cacheTtl.news, ...options, filters });
   }
 
   /**
@@ -178,9 +576,10 @@ export class PerplexityClient {
    * Uses 'sonar-pro' for better analysis quality.
    *
    * @param symbol - Crypto symbol (e.g., 'BTC', 'ETH', 'SOL')
+   * @param options - Pass `onDelta` to stream the answer
    * @returns Market analysis with price trends, news, and sentiment
    */
-  async researchCrypto(symbol: string): Promise<ResearchResult> {
+  async researchCrypto(symbol: string, options: SearchOptions = {}): Promise<ResearchResult> {
     const query = `Provide a brief current market analysis for ${symbol} cryptocurrency:
     1. Current price trend and recent movement
     2. Key news or events affecting price
@@ -188,65 +587,342 @@ export class PerplexityClient {
     4. Any upcoming events or catalysts
     Be concise and data-driven.`;
 
-    return this.search(query, 'sonar-pro');
+    return this.search(query, 'sonar-pro', { cacheTtlMs: this.cacheTtl.crypto, ...options });
+  }
+
+  /**
+   * Write a deep-research report on a topic
+   *
+   * Uses 'sonar-deep-research' by default, which searches many sources and
+   * can take several minutes. The request is always streamed so the
+   * connection isn't dropped while the model works; pass `onDelta` to
+   * watch progress. Reasoning (<think> blocks) is stripped from the result.
+   *
+   * @param topic - What to research (e.g., 'Ethereum restaking', 'SOL')
+   * @param options - Model, search filters and progress callback
+   * @returns Markdown report body with numbered [n] citation markers
+   *
+   * @example
+   *   const report = await client.researchReport('Bitcoin ETF flows');
+   *   writeReport(report);  // see perplexity-report.ts
+   */
+  async researchReport(topic: string, options: ReportOptions = {}): Promise<ResearchReport> {
+    const model = options.model || 'sonar-deep-research';
+
+    const prompt = `Write an in-depth research report on ${topic} for a crypto trader.
+Use exactly these markdown sections, in this order:
+## Thesis
+## Catalysts
+## Risks
+## On-chain / Fundamentals
+Cite sources inline with numbered markers like [1] matching the search results.
+Do not add a sources or references section - it is generated automatically.`;
+
+    const stream = this.chatStream([{ role: 'user', content: prompt }], { model, filters: options.filters });
+    for await (const text of stream) {
+      options.onDelta?.(text);
+    }
+    const response = await stream.response;
+
+    return {
+      topic,
+      content: stripReasoning(response.choices[0]?.message.content || ''),
+      citations: this.citationsFor(response),
+      model: response.model,
+      usage: response.usage,
+      cost_usd: estimateCost(response.model, response.usage.prompt_tokens, response.usage.completion_tokens, extraUsage(response)),
+      generated_at: new Date().toISOString(),
+    };
   }
 
   /**
    * Get structured market sentiment
    *
    * Returns a structured JSON object that can be used by trading bots.
-   * Uses 'sonar-pro' with low temperature for consistent output.
+   * Uses 'sonar-pro' in JSON-schema mode with low temperature, validates
+   * the result, and re-asks the model (up to `maxRepairs` times) when the
+   * output doesn't match the schema.
+   *
+   * Check `parse_status` before acting on the result: 'invalid' means the
+   * model never produced valid output and the fields are placeholders.
    *
    * @param symbol - Crypto symbol (e.g., 'BTC')
+   * @param options - How many times to re-ask on invalid output (default: 2)
    * @returns Structured sentiment data with confidence score
    */
-  async getMarketSentiment(symbol: string): Promise<MarketSentiment> {
-    // System prompt instructs the AI to return JSON
-    const systemPrompt = `You are a market analyst. Analyze the given cryptocurrency and respond ONLY with valid JSON in this exact format:
-{
-  "sentiment": "bullish" | "bearish" | "neutral",
-  "confidence": 0.0-1.0,
-  "summary": "one sentence summary",
-  "key_factors": ["factor1", "factor2", "factor3"]
-}`;
+  async getMarketSentiment(symbol: string, options: { maxRepairs?: number } = {}): Promise<MarketSentiment> {
+    const maxRepairs = options.maxRepairs ?? 2;
+
+    // System prompt describes the fields; the schema enforces them
+    const systemPrompt = `You are a market analyst. Analyze the given cryptocurrency and respond ONLY with JSON matching the provided schema:
+- sentiment: "bullish", "bearish" or "neutral"
+- confidence: 0.0-1.0 (0 means no conviction at all)
+- summary: one sentence summary
+- key_factors: the 1-5 most important factors driving the sentiment`;
 
     const userPrompt = `Analyze the current market sentiment for ${symbol}. Consider recent news, price action, and market conditions.`;
 
-    const response = await this.chat(
-      [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      { model: 'sonar-pro', temperature: 0.1 }  // Very low temp for consistent JSON
-    );
-
-    const content = response.choices[0]?.message.content || '{}';
-
-    try {
-      // Extract JSON from response (AI sometimes wraps in markdown code blocks)
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      const parsed = JSON.parse(jsonMatch?.[0] || content);
-
-      return {
-        symbol,
-        sentiment: parsed.sentiment || 'neutral',
-        confidence: parsed.confidence || 0.5,
-        summary: parsed.summary || '',
-        key_factors: parsed.key_factors || [],
-        citations: response.citations || [],
-      };
-    } catch {
-      // Fallback if JSON parsing fails - return neutral with raw content
-      return {
-        symbol,
-        sentiment: 'neutral',
-        confidence: 0.5,
-        summary: content.slice(0, 200),
-        key_factors: [],
-        citations: response.citations || [],
-      };
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ];
+
+    let content = '';
+    let citations: Citation[] = [];
+    let errors: string[] = [];
+    let model: string = 'sonar-pro';
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const response = await this.chat(messages, {
+        model: 'sonar-pro',
+        temperature: 0.1,  // Very low temp for consistent JSON
+        responseFormat: { type: 'json_schema', json_schema: { schema: SENTIMENT_SCHEMA } },
+      });
+
+      content = response.choices[0]?.message.content || '';
+      citations = this.citationsFor(response);
+      model = response.model;
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(content);
+        errors = validateSchema(parsed, SENTIMENT_SCHEMA);
+      } catch (error) {
+        errors = [error instanceof Error ? error.message : String(error)];
+      }
+
+      if (errors.length === 0) {
+        const data = parsed as Pick<MarketSentiment, 'sentiment' | 'confidence' | 'summary' | 'key_factors'>;
+        const quality = assessSourceQuality(citations);
+        this.applyLowTierPolicy(`${symbol} sentiment`, quality);
+
+        // Down-weight: scale confidence by source quality, keeping the original
+        const downweight = this.lowTierPolicy === 'downweight' && quality.low_tier_share > this.maxLowTierShare;
+
+        return {
+          symbol,
+          sentiment: data.sentiment,
+          confidence: downweight ? Math.round(data.confidence * quality.score * 100) / 100 : data.confidence,
+          summary: data.summary,
+          key_factors: data.key_factors,
+          citations,
+          source_quality: quality,
+          raw_confidence: downweight ? data.confidence : undefined,
+          parse_status: attempt === 0 ? 'valid' : 'repaired',
+          model,
+          prompt_version: SENTIMENT_PROMPT_VERSION,
+        };
+      }
+
+      // Show the model its own answer and what was wrong with it
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That response was invalid:\n- ${errors.join('\n- ')}\nRespond again with ONLY the corrected JSON.` }
+      );
+    }
+
+    // Never validated - placeholders only, flagged so callers can't mistake it for a real neutral call
+    return {
+      symbol,
+      sentiment: 'neutral',
+      confidence: 0,
+      summary: content.slice(0, 200),
+      key_factors: [],
+      citations,
+      source_quality: assessSourceQuality(citations),
+      parse_status: 'invalid',
+      validation_errors: errors,
+      model,
+      prompt_version: SENTIMENT_PROMPT_VERSION,
+    };
+  }
+
+  /**
+   * Get market sentiment for a whole watchlist
+   *
+   * Runs getMarketSentiment() for each symbol with at most `concurrency`
+   * requests in flight (the rate limiter still applies). A failing symbol
+   * is reported in `errors` and never stops the others.
+   *
+   * @param symbols - Crypto symbols (e.g., ['BTC', 'ETH', 'SOL'])
+   * @param options - Concurrency (default: 3), re-ask limit, progress callback
+   * @returns Results and errors, each in watchlist order
+   */
+  async getMarketSentimentBatch(
+    symbols: string[],
+    options: {
+      concurrency?: number;
+      maxRepairs?: number;
+      onResult?: (symbol: string, result: MarketSentiment | Error) => void;
+    } = {}
+  ): Promise<SentimentBatchResult> {
+    const settled = await mapWithConcurrency(symbols, options.concurrency ?? 3, async (symbol) => {
+      try {
+        const result = await this.getMarketSentiment(symbol, { maxRepairs: options.maxRepairs });
+        options.onResult?.(symbol, result);
+        return result;
+      } catch (error) {
+        options.onResult?.(symbol, error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      }
+    });
+
+    const batch: SentimentBatchResult = { results: [], errors: [] };
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        batch.results.push(outcome.value);
+      } else {
+        const reason = outcome.reason;
+        batch.errors.push({ symbol: symbols[i], error: reason instanceof Error ? reason.message : String(reason) });
+      }
+    });
+
+    return batch;
+  }
+
+  /**
+   * Turn a raw response's citation URLs and search results into rated citations
+   *
+   * Uses this client's source tiers. Useful when calling chat() directly.
+   */
+  citationsFor(response: Pick<PerplexityResponse, 'citations' | 'search_results'>): Citation[] {
+    return buildCitations(response, this.sourceTiers);
+  }
+
+  /**
+   * Enforce the 'drop' policy for answers that rely mostly on low-tier sources
+   *
+   * @throws LowQualitySourcesError when dropping
+   */
+  private applyLowTierPolicy(subject: string, quality: SourceQuality): void {
+    if (this.lowTierPolicy === 'drop' && quality.low_tier_share > this.maxLowTierShare) {
+      throw new LowQualitySourcesError(subject, quality);
     }
   }
+
+  /** Retry, rate-limit and auth settings shared by every request */
+  private fetchOptions(): FetchWithRetryOptions {
+    return {
+      provider: 'perplexity',
+      limiter: this.limiter,
+      keys: this.keys,
+      authHeaders: (key) => ({ 'Authorization': `Bearer ${key}` }),
+      ...this.retry,
+    };
+  }
+
+  /** Add a completed call to the usage ledger, if one is configured */
+  private recordUsage(response: PerplexityResponse): void {
+    this.ledger?.record({
+      provider: 'perplexity',
+      model: response.model,
+      prompt_tokens: response.usage?.prompt_tokens || 0,
+      completion_tokens: response.usage?.completion_tokens || 0,
+      ...extraUsage(response),
+    });
+  }
+}
+
+// ============================================================================
+// Usage Helpers
+// ============================================================================
+
+/** Deep-research usage that is billed on top of prompt and completion tokens */
+function extraUsage(response: PerplexityResponse): ExtraUsage {
+  const { citation_tokens, reasoning_tokens, num_search_queries } = response.usage || {};
+  return { citation_tokens, reasoning_tokens, search_queries: num_search_queries };
+}
+
+// ============================================================================
+// Search Filter Helpers
+// ============================================================================
+
+/**
+ * Translate SearchFilters into Perplexity request parameters
+ *
+ * Deny-list entries are sent with a '-' prefix, as the API expects.
+ *
+ * @throws Error if both domain lists are given, there are more than 20
+ *   domains, or a date is not a real YYYY-MM-DD date
+ */
+function searchFilterParams(filters?: SearchFilters): Record<string, unknown> {
+  if (!filters) {
+    return {};
+  }
+  if (filters.domains?.length && filters.excludeDomains?.length) {
+    throw new Error('Use either an allow-list (domains) or a deny-list (exclude domains), not both');
+  }
+
+  const params: Record<string, unknown> = {};
+  if (filters.recency) {
+    params.search_recency_filter = filters.recency;
+  }
+  if (filters.after) {
+    params.search_after_date_filter = toApiDate(filters.after);
+  }
+  if (filters.before) {
+    params.search_before_date_filter = toApiDate(filters.before);
+  }
+
+  const domains = [
+    ...(filters.domains || []),
+    ...(filters.excludeDomains || []).map((d) => `-${d}`),
+  ];
+  if (domains.length > MAX_DOMAIN_FILTERS) {
+    throw new Error(`At most ${MAX_DOMAIN_FILTERS} domains can be filtered per request (got ${domains.length})`);
+  }
+  if (domains.length > 0) {
+    params.search_domain_filter = domains;
+  }
+
+  return params;
+}
+
+/** YYYY-MM-DD -> M/D/YYYY (the API's date filter format) */
+function toApiDate(date: string): string {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    throw new Error(`Invalid date "${date}" - use YYYY-MM-DD`);
+  }
+  const [, year, month, day] = match;
+
+  // Date.UTC rolls 2026-13-45 over into a later date, so a round trip catches impossible dates
+  const parsed = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (parsed.toISOString().slice(0, 10) !== date) {
+    throw new Error(`Invalid date "${date}" - no such day`);
+  }
+  return `${Number(month)}/${Number(day)}/${year}`;
+}
+
+/**
+ * Smallest recency filter that covers a free-text timeframe
+ *
+ * 'last 24 hours' -> 'day', 'past 3 days' -> 'week', 'last month' -> 'month'.
+ * Returns undefined when the timeframe can't be understood.
+ */
+function recencyFromTimeframe(timeframe: string): SearchRecency | undefined {
+  const match = timeframe.toLowerCase().match(/(\d+)?\s*(hour|day|week|month|year)s?\b/);
+  if (!match) {
+    return undefined;
+  }
+
+  const unitHours = { hour: 1, day: 24, week: 24 * 7, month: 24 * 31, year: 24 * 366 };
+  const hours = Number(match[1] || 1) * unitHours[match[2] as SearchRecency];
+  const windows: SearchRecency[] = ['hour', 'day', 'week', 'month', 'year'];
+
+  return windows.find((w) => unitHours[w] >= hours);
+}
+
+/** Remove <think>...</think> reasoning that reasoning models prepend to answers */
+function stripReasoning(content: string): string {
+  return content.replace(/<think>[\s\S]*?<\/think>/g, '').trim();
+}
+
+/** Prompt wording for an explicit date window */
+function describeDateWindow(after?: string, before?: string): string {
+  if (after && before) return `period from ${after} to ${before}`;
+  if (after) return `period since ${after}`;
+  return `period up to ${before}`;
 }
 
 // ============================================================================
@@ -256,9 +932,11 @@ export class PerplexityClient {
 /**
  * Create a Perplexity client instance
  *
- * Reads API key from environment if not provided.
+ * Reads API keys from the environment and config files if not provided
+ * (see ../shared/credentials).
  *
- * @param apiKey - Optional API key (defaults to PERPLEXITY_API_KEY env var)
+ * @param apiKey - Optional API key (defaults to PERPLEXITY_API_KEY(S), then .ai-tools/config.json, then ~/.config/ai-tools/config.json)
+ * @param options - Extra client settings (cache, retry, rate limit...)
  * @returns Configured PerplexityClient instance
  * @throws Error if no API key is available
  *
@@ -268,13 +946,19 @@ export class PerplexityClient {
  *
  *   // Or pass key directly
  *   const client = createPerplexityClient('pplx-xxx...');
+ *
+ *   // With an on-disk cache
+ *   const client = createPerplexityClient(undefined, { cache: new ResponseCache('perplexity') });
  */
-export function createPerplexityClient(apiKey?: string): PerplexityClient {
-  const key = apiKey || process.env.PERPLEXITY_API_KEY;
+export function createPerplexityClient(
+  apiKey?: string,
+  options: Omit<PerplexityConfig, 'apiKey'> = {}
+): PerplexityClient {
+  const keys = apiKey ? [apiKey] : loadApiKeys('perplexity');
 
-  if (!key) {
-    throw new Error('PERPLEXITY_API_KEY is required. Set it in .envrc or pass it directly.');
+  if (keys.length === 0) {
+    throw missingKeyError('perplexity');
   }
 
-  return new PerplexityClient({ apiKey: key });
+  return new PerplexityClient({ ...options, apiKey: keys });
 }
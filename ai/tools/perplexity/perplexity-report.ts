@@ -0,0 +1,109 @@
+/**
+ * Research Report Markdown Writer
+ *
+ * Turns a ResearchReport from PerplexityClient.researchReport() into a
+ * dated markdown file under ai/docs/research:
+ *
+ * - YAML front-matter with topic, model, token counts and estimated cost
+ * - Inline [n] citation markers rewritten as markdown footnotes [^n]
+ * - A Sources section listing every footnote's title, domain, date and tier
+ *
+ * Usage:
+ *   const report = await client.researchReport('Solana ETF odds');
+ *   const file = writeReport(report);  // ai/docs/research/2026-01-05-solana-etf-odds.md
+ *
+ * A second report on the same topic and day is written next to the first
+ * (…-solana-etf-odds-2.md) - a paid report is never overwritten.
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ResearchReport } from './perplexity-client';
+import { PROJECT_ROOT } from '../shared/paths';
+import { assessSourceQuality } from './source-quality';
+
+/** Default output directory for reports */
+export const RESEARCH_DIR = join(PROJECT_ROOT, 'ai', 'docs', 'research');
+
+/**
+ * Render a report as markdown with front-matter and footnote citations
+ *
+ * @param report - Result of researchReport()
+ * @returns Markdown document
+ */
+export function renderReportMarkdown(report: ResearchReport): string {
+  const date = report.generated_at.slice(0, 10);
+
+  // Strings are JSON-quoted, which is also valid YAML
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(`${report.topic} research report`)}`,
+    `topic: ${JSON.stringify(report.topic)}`,
+    `date: ${date}`,
+    `generated_at: ${JSON.stringify(report.generated_at)}`,
+    `model: ${JSON.stringify(report.model)}`,
+    `prompt_tokens: ${report.usage.prompt_tokens}`,
+    `completion_tokens: ${report.usage.completion_tokens}`,
+    `total_tokens: ${report.usage.total_tokens}`,
+    ...(report.usage.citation_tokens !== undefined ? [`citation_tokens: ${report.usage.citation_tokens}`] : []),
+    ...(report.usage.reasoning_tokens !== undefined ? [`reasoning_tokens: ${report.usage.reasoning_tokens}`] : []),
+    ...(report.usage.num_search_queries !== undefined ? [`search_queries: ${report.usage.num_search_queries}`] : []),
+    `cost_usd: ${report.cost_usd.toFixed(4)}`,
+    `sources: ${report.citations.length}`,
+    `source_quality: ${assessSourceQuality(report.citations).score}`,
+    '---',
+  ];
+
+  // [3] -> [^3], but only for markers that point at a real citation (and not links like [3](...))
+  // Blank line after headings, so the file passes the repo's markdown formatting check
+  const body = report.content
+    .replace(/\[(\d+)\](?!\()/g, (marker, n) =>
+      Number(n) >= 1 && Number(n) <= report.citations.length ? `[^${n}]` : marker
+    )
+    .replace(/^(#{1,6} .*)\n(?!\n)/gm, '$1\n\n');
+
+  // Footnote definitions separated by blank lines (same reason)
+  const sources = report.citations.flatMap((c, i) => [
+    ...(i > 0 ? [''] : []),
+    `[^${i + 1}]: ${c.title ? `${c.title} - ` : ''}${c.domain}${c.date ? ` (${c.date})` : ''}, ${c.tier} tier: <${c.url}>`,
+  ]);
+
+  return [
+    ...frontMatter,
+    '',
+    `# ${report.topic}`,
+    '',
+    body,
+    ...(sources.length > 0 ? ['', '## Sources', '', ...sources] : []),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write a report to a dated markdown file
+ *
+ * @param report - Result of researchReport()
+ * @param dir - Output directory (defaults to ai/docs/research)
+ * @returns Path of the written file (<date>-<topic-slug>.md, or <date>-<topic-slug>-<n>.md if taken)
+ */
+export function writeReport(report: ResearchReport, dir: string = RESEARCH_DIR): string {
+  mkdirSync(dir, { recursive: true });
+
+  const slug = report.topic.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'report';
+  const base = join(dir, `${report.generated_at.slice(0, 10)}-${slug}`);
+  const markdown = renderReportMarkdown(report);
+
+  // 'wx' fails instead of overwriting, so two runs can't claim the same name
+  for (let n = 1; ; n++) {
+    const file = n === 1 ? `${base}.md` : `${base}-${n}.md`;
+    try {
+      writeFileSync(file, markdown, { flag: 'wx' });
+      return file;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+}
+
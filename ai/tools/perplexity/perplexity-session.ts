@@ -0,0 +1,210 @@
+/**
+ * Perplexity Research Sessions
+ *
+ * Multi-turn conversations on top of PerplexityClient, saved by name so
+ * follow-up questions keep their context (and citations) across runs.
+ *
+ * How history is sent:
+ * - The full conversation is saved in .ai-tools/sessions/perplexity/<name>.json
+ * - Each question sends only the newest turns that fit in `maxHistoryTokens`
+ *
+ * Usage:
+ *   const session = ResearchSession.open(client, 'btc-etf', { model: 'sonar-pro' });
+ *   await session.ask('What drove ETF inflows this week?');
+ *   await session.ask('Which of those sources are primary?');
+ *   session.writeMarkdown();  // ai/docs/research/<date>-btc-etf.md
+ */
+
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ChatMessage, PerplexityClient, PerplexityModel, PerplexityResponse, ResearchResult } from './perplexity-client';
+import { PROJECT_ROOT } from '../shared/paths';
+import { estimateTokens, Session, SessionStore, trimToTokenBudget } from '../shared/session-store';
+import { Citation, toCitation } from '../shared/citation';
+import { assessSourceQuality } from './source-quality';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A saved message - a ChatMessage plus when it was sent and its sources */
+export interface SessionMessage extends ChatMessage {
+  timestamp: string;
+  citations?: Citation[];   // Rated sources (assistant messages only)
+}
+
+/** Options for opening a session */
+export interface ResearchSessionOptions {
+  model?: PerplexityModel;            // Model for new sessions (default: 'sonar-pro')
+  maxHistoryTokens?: number;          // History budget per question (default: 4000)
+  store?: SessionStore<SessionMessage>;
+}
+
+// ============================================================================
+// Session Implementation
+// ============================================================================
+
+const SYSTEM_PROMPT = `You are a crypto market research assistant helping a trader.
+Answer follow-up questions in the context of the earlier conversation.
+Be concise, factual and cite sources.`;
+
+export class ResearchSession {
+  maxHistoryTokens: number;
+  private client: PerplexityClient;
+  private store: SessionStore<SessionMessage>;
+  private session: Session<SessionMessage>;
+
+  private constructor(
+    client: PerplexityClient,
+    store: SessionStore<SessionMessage>,
+    session: Session<SessionMessage>,
+    maxHistoryTokens: number
+  ) {
+    this.client = client;
+    this.store = store;
+    this.session = session;
+    this.maxHistoryTokens = maxHistoryTokens;
+  }
+
+  /**
+   * Resume a saved session, or start a new one with that name
+   *
+   * @param client - Client used for every question
+   * @param name - Session name (letters, numbers, '.', '-', '_')
+   * @param options - Model for new sessions, history budget, custom store
+   */
+  static open(client: PerplexityClient, name: string, options: ResearchSessionOptions = {}): ResearchSession {
+    const store = options.store || new SessionStore<SessionMessage>('perplexity');
+    const session = store.load(name) || store.create(name, options.model || 'sonar-pro');
+
+    // Sessions saved before citations were structured hold bare URLs
+    session.messages.forEach((m) => {
+      m.citations = m.citations?.map((c: Citation | string) => toCitation(c));
+    });
+
+    return new ResearchSession(client, store, session, options.maxHistoryTokens ?? 4000);
+  }
+
+  get name(): string {
+    return this.session.name;
+  }
+
+  get model(): PerplexityModel {
+    return this.session.model as PerplexityModel;
+  }
+
+  /** Switch model for the following questions (saved with the session) */
+  set model(model: PerplexityModel) {
+    this.session.model = model;
+    this.store.save(this.session);
+  }
+
+  get messages(): readonly SessionMessage[] {
+    return this.session.messages;
+  }
+
+  /**
+   * Ask a question in the context of the conversation so far
+   *
+   * The question and answer are only saved once the answer has arrived.
+   *
+   * @param question - Follow-up question
+   * @param onDelta - Stream the answer, calling this per text delta
+   * @returns The answer as a ResearchResult
+   */
+  async ask(question: string, onDelta?: (text: string) => void): Promise<ResearchResult> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      ...this.history().map(({ role, content }) => ({ role, content })),
+      { role: 'user', content: question },
+    ];
+
+    let response: PerplexityResponse;
+    if (onDelta) {
+      const stream = this.client.chatStream(messages, { model: this.model });
+      for await (const text of stream) {
+        onDelta(text);
+      }
+      response = await stream.response;
+    } else {
+      response = await this.client.chat(messages, { model: this.model });
+    }
+
+    const answer = response.choices[0]?.message.content || '';
+    const citations = this.client.citationsFor(response);
+
+    this.session.messages.push(
+      { role: 'user', content: question, timestamp: new Date().toISOString() },
+      { role: 'assistant', content: answer, citations, timestamp: new Date().toISOString() }
+    );
+    this.store.save(this.session);
+
+    return {
+      query: question,
+      answer,
+      citations,
+      source_quality: assessSourceQuality(citations),
+      model: response.model,
+      tokens_used: response.usage.total_tokens,
+    };
+  }
+
+  /** Estimated tokens of the history that will be sent with the next question */
+  historyTokens(): number {
+    return this.history().reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  }
+
+  /**
+   * Render the full conversation as markdown
+   *
+   * Each answer is followed by its numbered sources.
+   */
+  toMarkdown(): string {
+    const lines = [
+      `# Research Session: ${this.session.name}`,
+      '',
+      `- Model: ${this.session.model}`,
+      `- Started: ${this.session.created_at}`,
+      `- Updated: ${this.session.updated_at}`,
+    ];
+
+    for (const message of this.session.messages) {
+      if (message.role === 'user') {
+        lines.push('', `## ${message.content.replace(/\s+/g, ' ').trim()}`);
+        continue;
+      }
+
+      lines.push('', message.content.trim());
+      if (message.citations && message.citations.length > 0) {
+        lines.push('', '**Sources:**', '');
+        message.citations.forEach((c, i) =>
+          lines.push(`${i + 1}. ${c.title ? `${c.title} - ` : ''}${c.domain}${c.date ? ` (${c.date})` : ''}, ${c.tier} tier: <${c.url}>`)
+        );
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Save the transcript as markdown
+   *
+   * @param dir - Output directory (defaults to ai/docs/research)
+   * @returns Path of the written file (<date>-<name>.md)
+   */
+  writeMarkdown(dir: string = join(PROJECT_ROOT, 'ai', 'docs', 'research')): string {
+    mkdirSync(dir, { recursive: true });
+    const file = join(dir, `${new Date().toISOString().slice(0, 10)}-${this.session.name}.md`);
+    writeFileSync(file, this.toMarkdown());
+    return file;
+  }
+
+  /** Newest turns within the token budget, starting with a user message */
+  private history(): SessionMessage[] {
+    const trimmed = trimToTokenBudget(this.session.messages, this.maxHistoryTokens, (m) => estimateTokens(m.content));
+
+    // Perplexity requires user/assistant turns to alternate after the system prompt
+    const start = trimmed.findIndex((m) => m.role === 'user');
+    return start === -1 ? [] : trimmed.slice(start);
+  }
+}
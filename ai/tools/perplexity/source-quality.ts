@@ -0,0 +1,144 @@
+/**
+ * Structured Citations and Source-Quality Scoring
+ *
+ * Perplexity returns bare citation URLs plus (for most models) a
+ * `search_results` list with titles and publication dates. This module
+ * merges the two into Citation objects, rates each source's domain with
+ * the tiers in shared/citation.ts and scores the answer as a whole.
+ *
+ * Tiers can be extended per project in .ai-tools/source-tiers.json:
+ *   { "high": ["example.com"], "low": ["spam.example"] }
+ *
+ * Usage:
+ *   const citations = buildCitations(response, loadSourceTiers());
+ *   const quality = assessSourceQuality(citations);
+ *   if (quality.low_tier_share > 0.5) { ...don't trust this answer... }
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { Citation, DEFAULT_SOURCE_TIERS, domainOf, SourceTier, SourceTiers, tierFor } from '../shared/citation';
+import { statePath } from '../shared/paths';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Summary of how trustworthy an answer's sources are */
+export interface SourceQuality {
+  score: number;                          // 0.0-1.0, tier-weighted average (0.5 with no sources)
+  low_tier_share: number;                 // Fraction of sources in the low tier
+  counts: Record<SourceTier, number>;
+}
+
+/**
+ * What to do with answers that rely mostly on low-tier sources
+ * - keep: return as-is (source_quality is still reported)
+ * - downweight: scale sentiment confidence by the quality score
+ * - drop: throw LowQualitySourcesError
+ */
+export type LowTierPolicy = 'keep' | 'downweight' | 'drop';
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/** Weight of each tier in the quality score */
+const TIER_WEIGHTS: Record<SourceTier, number> = {
+  high: 1,
+  medium: 0.7,
+  unrated: 0.5,
+  low: 0.2,
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/** Raised under the 'drop' policy when an answer relies mostly on low-tier sources */
+export class LowQualitySourcesError extends Error {
+  readonly quality: SourceQuality;
+
+  constructor(subject: string, quality: SourceQuality) {
+    super(`${subject} relies mostly on low-tier sources (${Math.round(quality.low_tier_share * 100)}% low tier)`);
+    this.name = 'LowQualitySourcesError';
+    this.quality = quality;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load source tiers, merging .ai-tools/source-tiers.json onto the defaults
+ *
+ * @param file - Override file path (defaults to .ai-tools/source-tiers.json)
+ * @returns Combined tiers (project entries are added, not replaced)
+ * @throws Error if the override file exists but isn't valid JSON
+ */
+export function loadSourceTiers(file: string = statePath('source-tiers.json')): SourceTiers {
+  if (!existsSync(file)) {
+    return DEFAULT_SOURCE_TIERS;
+  }
+
+  let extra: Partial<SourceTiers>;
+  try {
+    extra = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    throw new Error(`Source tier file ${file} is not valid JSON`);
+  }
+
+  return {
+    high: [...(extra.high || []), ...DEFAULT_SOURCE_TIERS.high],
+    medium: [...(extra.medium || []), ...DEFAULT_SOURCE_TIERS.medium],
+    low: [...(extra.low || []), ...DEFAULT_SOURCE_TIERS.low],
+  };
+}
+
+/**
+ * Merge citation URLs and search results into rated Citation objects
+ *
+ * @param response - Anything with the API's `citations` / `search_results` fields
+ * @param tiers - Source tiers to rate domains with
+ * @returns One Citation per URL, in the API's citation order (so [n] markers still line up)
+ */
+export function buildCitations(
+  response: { citations?: string[]; search_results?: { url: string; title?: string; date?: string | null }[] },
+  tiers: SourceTiers = DEFAULT_SOURCE_TIERS
+): Citation[] {
+  const results = response.search_results || [];
+  const urls = response.citations?.length ? response.citations : results.map((r) => r.url);
+
+  return urls.map((url) => {
+    const match = results.find((r) => r.url === url);
+    return {
+      url,
+      domain: domainOf(url),
+      title: match?.title || undefined,
+      date: match?.date ? match.date.slice(0, 10) : undefined,
+      tier: tierFor(url, tiers),
+    };
+  });
+}
+
+/**
+ * Score an answer's sources
+ *
+ * @param citations - Rated citations
+ * @returns Tier-weighted score, low-tier share and counts
+ */
+export function assessSourceQuality(citations: Citation[]): SourceQuality {
+  const counts: Record<SourceTier, number> = { high: 0, medium: 0, low: 0, unrated: 0 };
+  citations.forEach((c) => counts[c.tier]++);
+
+  if (citations.length === 0) {
+    return { score: TIER_WEIGHTS.unrated, low_tier_share: 0, counts };
+  }
+
+  const total = citations.reduce((sum, c) => sum + TIER_WEIGHTS[c.tier], 0);
+  return {
+    score: Math.round((total / citations.length) * 100) / 100,
+    low_tier_share: Math.round((counts.low / citations.length) * 100) / 100,
+    counts,
+  };
+}
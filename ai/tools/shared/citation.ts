@@ -0,0 +1,120 @@
+/**
+ * Citations and Source Tiers
+ *
+ * A Citation is a source an answer was based on, rated by the credibility
+ * of its domain. Perplexity produces them (see perplexity/source-quality.ts
+ * for building and scoring them); Gemini and stored signals carry them on.
+ *
+ * Tiers:
+ * - high: wire services, major financial press, regulators, primary sources
+ * - medium: established crypto trade press
+ * - low: SEO aggregators, press-release mills, social media, user blogs
+ * - unrated: anything not listed
+ *
+ * Usage:
+ *   const tier = tierFor('https://www.reuters.com/markets/...');  // 'high'
+ *   const citation = toCitation(storedCitationOrUrl);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Credibility tier of a source domain */
+export type SourceTier = 'high' | 'medium' | 'low' | 'unrated';
+
+/** A source the answer was based on */
+export interface Citation {
+  url: string;
+  domain: string;          // Hostname without 'www.'
+  title?: string;          // From search_results, when the API returns it
+  date?: string;           // Publication date (YYYY-MM-DD), when known
+  tier: SourceTier;
+}
+
+/** Domains per tier - subdomains match too (e.g. 'markets.reuters.com') */
+export interface SourceTiers {
+  high: string[];
+  medium: string[];
+  low: string[];
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * SEO aggregators and paid-press-release outlets that rewrite other articles
+ *
+ * Low tier, and excluded from news searches by default (perplexity-client.ts).
+ * The API accepts at most 20 domains per request, so keep this short.
+ */
+export const AGGREGATOR_DOMAINS = [
+  'coinpedia.org', 'zycrypto.com', 'cryptopolitan.com', 'thecryptobasic.com', 'coingape.com',
+  'timestabloid.com', 'crypto-economy.com', 'bitcoinworld.co.in',
+];
+
+export const DEFAULT_SOURCE_TIERS: SourceTiers = {
+  high: [
+    'reuters.com', 'bloomberg.com', 'wsj.com', 'ft.com', 'cnbc.com', 'apnews.com',
+    'sec.gov', 'federalreserve.gov', 'cftc.gov', 'bis.org', 'imf.org',
+    'coindesk.com', 'theblock.co', 'blockworks.co',
+  ],
+  medium: [
+    'decrypt.co', 'cointelegraph.com', 'dlnews.com', 'theinformation.com', 'fortune.com',
+    'forbes.com', 'yahoo.com', 'coinmarketcap.com', 'coingecko.com', 'messari.io',
+    'glassnode.com', 'kaiko.com', 'defillama.com', 'etherscan.io',
+  ],
+  low: [
+    ...AGGREGATOR_DOMAINS, 'u.today', 'newsbtc.com',
+    'medium.com', 'reddit.com', 'x.com', 'twitter.com', 'youtube.com', 'tiktok.com', 'binance.com/en/square',
+  ],
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rate a URL's domain
+ *
+ * Project entries come first in each list, and tiers are checked
+ * high -> medium -> low, so the first matching entry wins.
+ */
+export function tierFor(url: string, tiers: SourceTiers = DEFAULT_SOURCE_TIERS): SourceTier {
+  const domain = domainOf(url);
+  const path = safeUrl(url)?.pathname || '';
+
+  const matches = (entry: string) => {
+    const [host, ...rest] = entry.split('/');
+    const prefix = rest.length > 0 ? `/${rest.join('/')}` : '';
+    return (domain === host || domain.endsWith(`.${host}`)) && path.startsWith(prefix);
+  };
+
+  if (tiers.high.some(matches)) return 'high';
+  if (tiers.medium.some(matches)) return 'medium';
+  if (tiers.low.some(matches)) return 'low';
+  return 'unrated';
+}
+
+/**
+ * Accept a legacy bare-URL citation (saved before citations were structured)
+ */
+export function toCitation(citation: Citation | string, tiers: SourceTiers = DEFAULT_SOURCE_TIERS): Citation {
+  return typeof citation === 'string'
+    ? { url: citation, domain: domainOf(citation), tier: tierFor(citation, tiers) }
+    : citation;
+}
+
+/** Hostname without a leading 'www.' ('' for invalid URLs) */
+export function domainOf(url: string): string {
+  return (safeUrl(url)?.hostname || '').replace(/^www\./, '');
+}
+
+function safeUrl(url: string): URL | undefined {
+  try {
+    return new URL(url);
+  } catch {
+    return undefined;
+  }
+}
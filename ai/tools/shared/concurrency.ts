@@ -0,0 +1,47 @@
+/**
+ * Bounded Concurrency
+ *
+ * Runs async work over a list with at most `limit` tasks in flight.
+ * Failures are captured per item instead of rejecting the whole run,
+ * so one bad symbol never stops the rest of a watchlist.
+ *
+ * Usage:
+ *   const settled = await mapWithConcurrency(['BTC', 'ETH'], 3, (s) => client.getMarketSentiment(s));
+ *   settled.forEach((r) => r.status === 'fulfilled' ? use(r.value) : log(r.reason));
+ */
+
+/**
+ * Map over items with a concurrency limit
+ *
+ * @param items - Inputs to process
+ * @param limit - Max tasks running at once (minimum 1; NaN or Infinity counts as 1)
+ * @param fn - Async work for one item
+ * @returns One PromiseSettledResult per item, in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  // Each worker keeps pulling the next unclaimed item until none are left
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  // NaN would start no workers at all and leave every result empty
+  const workerCount = Number.isFinite(limit) ? Math.max(1, Math.min(Math.floor(limit), items.length)) : 1;
+  const workers = Array.from({ length: workerCount }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
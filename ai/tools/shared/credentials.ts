@@ -0,0 +1,169 @@
+/**
+ * API Credentials
+ *
+ * Finds API keys for a provider and rotates between them when one is
+ * rate-limited.
+ *
+ * Keys are collected from (first found wins the "primary" slot, all are used):
+ * 1. Environment: PERPLEXITY_API_KEY / GEMINI_API_KEY, plus comma-separated
+ *    PERPLEXITY_API_KEYS / GEMINI_API_KEYS
+ * 2. Project config: .ai-tools/config.json (git-ignored, follows AI_TOOLS_HOME)
+ * 3. User config: ~/.config/ai-tools/config.json (or $XDG_CONFIG_HOME/ai-tools)
+ *
+ * Config file format:
+ *   {
+ *     "perplexity": { "api_key": "pplx-..." },
+ *     "gemini": { "api_keys": ["AIza...", "AIza..."] }
+ *   }
+ *
+ * Every loaded key is registered with redact.ts so it never shows up in
+ * error messages or logs.
+ *
+ * Usage:
+ *   const keys = new KeyRing('gemini', loadApiKeys('gemini'));
+ *   headers['x-goog-api-key'] = keys.current;
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { ApiProvider, providerLabel } from './errors';
+import { statePath } from './paths';
+import { registerSecret } from './redact';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Per-provider entry in a config file */
+interface ProviderCredentials {
+  api_key?: string;
+  api_keys?: string[];
+}
+
+/** Shape of .ai-tools/config.json and ~/.config/ai-tools/config.json */
+type CredentialsConfig = Partial<Record<ApiProvider, ProviderCredentials>>;
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/** Env variable holding the primary key, e.g. GEMINI_API_KEY */
+export function apiKeyEnvVar(provider: ApiProvider): string {
+  return `${provider.toUpperCase()}_API_KEY`;
+}
+
+/** Config files searched for keys, most specific first */
+export function credentialFiles(): string[] {
+  const userConfigDir = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return [statePath('config.json'), join(userConfigDir, 'ai-tools', 'config.json')];
+}
+
+/**
+ * Collect every configured key for a provider
+ *
+ * Duplicates are dropped, order is env → project config → user config.
+ *
+ * @param provider - Which API the keys are for
+ * @returns Keys in priority order (empty if none are configured)
+ * @throws Error if a config file exists but is not valid JSON
+ */
+export function loadApiKeys(provider: ApiProvider): string[] {
+  const envVar = apiKeyEnvVar(provider);
+  const keys = [
+    process.env[envVar],
+    ...(process.env[`${envVar}S`] || '').split(','),
+    ...credentialFiles().flatMap((file) => keysFromFile(file, provider)),
+  ];
+
+  const unique = [...new Set(keys.map((k) => k?.trim()).filter((k): k is string => !!k))];
+  unique.forEach(registerSecret);
+  return unique;
+}
+
+/** Keys for one provider from a config file (none if the file is missing) */
+function keysFromFile(file: string, provider: ApiProvider): string[] {
+  if (!existsSync(file)) {
+    return [];
+  }
+
+  let config: CredentialsConfig;
+  try {
+    config = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot read credentials from ${file}: ${reason}`);
+  }
+
+  const entry = config?.[provider];
+  return [entry?.api_key, ...(entry?.api_keys || [])].filter((k): k is string => typeof k === 'string');
+}
+
+/**
+ * Error for a provider with no key anywhere
+ *
+ * Lists every place that was searched.
+ */
+export function missingKeyError(provider: ApiProvider): Error {
+  const envVar = apiKeyEnvVar(provider);
+  return new Error(
+    `No ${providerLabel(provider)} API key found. Set ${envVar} (or ${envVar}S, comma-separated) in .envrc, ` +
+      `add "${provider}": { "api_key": "..." } to ${credentialFiles().join(' or ')}, or pass it directly.`
+  );
+}
+
+// ============================================================================
+// Key Rotation
+// ============================================================================
+
+/**
+ * A provider's keys, with rate-limited keys benched for a while
+ *
+ * The clients read `current` for every attempt; fetchWithRetry calls
+ * rotate() on a 429 so the retry goes out with a different key.
+ */
+export class KeyRing {
+  readonly provider: ApiProvider;
+  private keys: string[];
+  private index = 0;
+  private benchedUntil = new Map<string, number>();   // key -> epoch ms
+
+  constructor(provider: ApiProvider, keys: string[]) {
+    if (keys.length === 0) {
+      throw missingKeyError(provider);
+    }
+    this.provider = provider;
+    this.keys = keys;
+    keys.forEach(registerSecret);
+  }
+
+  /** Number of keys in the ring */
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /** Key to use for the next request */
+  get current(): string {
+    return this.keys[this.index];
+  }
+
+  /**
+   * Bench the current key and switch to the next one that is not benched
+   *
+   * @param cooldownMs - How long the current key stays benched (default: 60s)
+   * @returns true if another usable key was found, false if every key is benched
+   */
+  rotate(cooldownMs = 60_000): boolean {
+    const now = Date.now();
+    this.benchedUntil.set(this.current, now + cooldownMs);
+
+    for (let step = 1; step < this.keys.length; step++) {
+      const next = (this.index + step) % this.keys.length;
+      if ((this.benchedUntil.get(this.keys[next]) ?? 0) <= now) {
+        this.index = next;
+        return true;
+      }
+    }
+    return false;
+  }
+}
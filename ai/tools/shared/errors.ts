@@ -0,0 +1,157 @@
+/**
+ * Typed API Errors shared by the Perplexity and Gemini clients (and the
+ * Binance market-data adapter)
+ *
+ * Every failed request is turned into one of these classes so callers
+ * (and the CLIs) can tell a bad key apart from a temporary outage.
+ *
+ * Error types:
+ * - RateLimitError: 429 - too many requests, safe to retry later
+ * - AuthError: 401/403 - the API key is missing, invalid or not allowed
+ * - BadRequestError: other 4xx - the request itself is wrong, never retried
+ * - ServerError: 5xx - provider-side problem, safe to retry
+ * - NetworkError: fetch failed before any response (DNS, reset, timeout)
+ * - BudgetExceededError: the local spending cap is used up (no request sent)
+ *
+ * Messages and bodies are passed through redactSecrets(), so an API key
+ * echoed back by a provider (or embedded in a URL) is never printed.
+ *
+ * Usage:
+ *   try { await client.search('BTC'); }
+ *   catch (error) { if (error instanceof RateLimitError) { ... } }
+ */
+
+import { redactSecrets } from './redact';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Providers that make API calls through the shared HTTP helpers */
+export type ApiProvider = 'perplexity' | 'gemini' | 'binance';
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Base class for every API failure
+ *
+ * `attempts` is filled in by the retry helper once it gives up, so the
+ * final message says how hard we tried.
+ */
+export class ApiError extends Error {
+  readonly provider: ApiProvider;
+  readonly status?: number;          // HTTP status (undefined for network errors)
+  readonly body?: string;            // Response body (secrets redacted), for debugging
+  attempts = 1;                      // How many requests were made in total
+
+  constructor(provider: ApiProvider, message: string, status?: number, body?: string) {
+    super(redactSecrets(message));
+    this.name = new.target.name;
+    this.provider = provider;
+    this.status = status;
+    this.body = body === undefined ? undefined : redactSecrets(body);
+  }
+
+  /** Whether the same request may succeed if sent again */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** 429 - the provider wants us to slow down */
+export class RateLimitError extends ApiError {
+  readonly retryAfterMs?: number;    // From the Retry-After header, if sent
+
+  constructor(provider: ApiProvider, message: string, status: number, body?: string, retryAfterMs?: number) {
+    super(provider, message, status, body);
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** 401/403 - retrying will not help until the key is fixed */
+export class AuthError extends ApiError {}
+
+/** Other 4xx - the request is malformed (bad model name, bad params...) */
+export class BadRequestError extends ApiError {}
+
+/** 5xx - provider outage or overload */
+export class ServerError extends ApiError {
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** No HTTP response at all (connection refused, DNS failure, reset...) */
+export class NetworkError extends ApiError {
+  constructor(provider: ApiProvider, message: string, cause?: unknown) {
+    super(provider, message);
+    this.cause = cause;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * Raised before a call when the usage ledger's budget is used up
+ *
+ * Not an ApiError - no request was sent.
+ */
+export class BudgetExceededError extends Error {
+  readonly period: 'daily' | 'monthly';
+  readonly limitUsd: number;
+  readonly spentUsd: number;
+
+  constructor(period: 'daily' | 'monthly', limitUsd: number, spentUsd: number) {
+    super(`${period === 'daily' ? 'Daily' : 'Monthly'} budget of $${limitUsd.toFixed(2)} used up ($${spentUsd.toFixed(4)} spent)`);
+    this.name = 'BudgetExceededError';
+    this.period = period;
+    this.limitUsd = limitUsd;
+    this.spentUsd = spentUsd;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Map an HTTP status to the matching error class
+ *
+ * @param provider - Which API returned the error
+ * @param status - HTTP status code
+ * @param body - Raw response body text
+ * @param retryAfterMs - Parsed Retry-After header, if any
+ * @returns The typed error (not thrown)
+ */
+export function createApiError(
+  provider: ApiProvider,
+  status: number,
+  body: string,
+  retryAfterMs?: number
+): ApiError {
+  const message = `${providerLabel(provider)} API error: ${status} - ${body}`;
+
+  if (status === 429) {
+    return new RateLimitError(provider, message, status, body, retryAfterMs);
+  }
+  if (status === 401 || status === 403) {
+    return new AuthError(provider, message, status, body);
+  }
+  if (status >= 500) {
+    return new ServerError(provider, message, status, body);
+  }
+  return new BadRequestError(provider, message, status, body);
+}
+
+/** Display name for a provider, used in error messages */
+export function providerLabel(provider: ApiProvider): string {
+  return { perplexity: 'Perplexity', gemini: 'Gemini', binance: 'Binance' }[provider];
+}
@@ -0,0 +1,251 @@
+/**
+ * OHLCV Candles from Local Files
+ *
+ * Historical prices for backtests (and anything else that needs candles)
+ * come from CSV or Parquet files, one per symbol, in a directory:
+ *
+ *   prices/BTC.csv          (also found as BTCUSDT.csv, BTC-USD.parquet, btc_usdt.csv ...)
+ *
+ * CSV format - a header row, then one candle per line, any column order:
+ *
+ *   timestamp,open,high,low,close,volume
+ *   2026-01-01T00:00:00Z,93500,94100,93200,93950,1520.4
+ *
+ * - The time column may be called timestamp, time, date, datetime or
+ *   open_time; values are ISO times (UTC unless they say otherwise) or
+ *   epoch seconds/milliseconds - micro/nanoseconds and compact dates like
+ *   20260101 are rejected rather than guessed at
+ * - o/h/l/c/v work as column names too; volume is optional (0 when missing
+ *   or empty), prices must be positive numbers
+ * - Candles are returned oldest first; a repeated timestamp keeps the last row
+ *
+ * Parquet files use the same column names (timestamp columns may also be
+ * Parquet timestamps). This module stays free of dependencies, so it only
+ * turns their rows into candles - signals/price-files.ts does the reading
+ * with hyparquet. Elsewhere, convert them to CSV first (e.g. with pandas or
+ * duckdb).
+ *
+ * Usage:
+ *   const file = findPriceFile('data/prices', 'BTC');
+ *   const candles = file ? loadCandles(file) : [];
+ *   const fromParquet = candlesFromRecords('btc.parquet', rows);
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One price bar */
+export interface Candle {
+  time: number;                  // Open time, epoch milliseconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/** A price file that can't be used */
+export class PriceDataError extends Error {
+  readonly file: string;
+
+  constructor(file: string, reason: string) {
+    super(`${file}: ${reason}`);
+    this.name = 'PriceDataError';
+    this.file = file;
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Accepted header names for each column */
+const COLUMNS = {
+  time: ['timestamp', 'time', 'date', 'datetime', 'open_time'],
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v'],
+};
+
+/** Numeric times above this (year 5138 in ms) must be micro- or nanoseconds */
+const MAX_EPOCH_MS = 1e14;
+
+/** 8-digit dates such as 20260101 - as epoch seconds they'd be a day in 1970 */
+const COMPACT_DATE = /^(19|20)\d{2}(0[1-9]|1[0-2])(0[1-9]|[12]\d|3[01])$/;
+
+/** Quote suffixes tried after the symbol when looking for its file */
+const QUOTE_SUFFIXES = ['', 'usdt', 'usd', '-usdt', '-usd', '_usdt', '_usd'];
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Find the price file for a symbol in a directory
+ *
+ * @returns Path of the CSV (preferred) or Parquet file, or undefined when there is none
+ */
+export function findPriceFile(dir: string, symbol: string): string | undefined {
+  if (!existsSync(dir)) {
+    throw new Error(`Price directory not found: ${dir}`);
+  }
+
+  const files = readdirSync(dir);
+  const named = (ext: string) => QUOTE_SUFFIXES
+    .map((suffix) => files.find((f) => extname(f).toLowerCase() === ext && basename(f, extname(f)).toLowerCase() === symbol.toLowerCase() + suffix))
+    .find((f): f is string => f !== undefined);
+
+  const csv = named('.csv');
+  if (csv) {
+    return join(dir, csv);
+  }
+  const parquet = named('.parquet');
+  return parquet ? join(dir, parquet) : undefined;
+}
+
+/**
+ * Read candles from a CSV file
+ *
+ * @returns Candles, oldest first
+ * @throws PriceDataError for a Parquet file, a missing column or an unreadable row (with its line number)
+ */
+export function loadCandles(file: string): Candle[] {
+  if (extname(file).toLowerCase() === '.parquet') {
+    throw new PriceDataError(file, 'Parquet is only readable by the signals tools - export it to CSV');
+  }
+
+  const lines = readFileSync(file, 'utf-8').split(/\r?\n/);
+  const rows = lines
+    .map((line, i) => ({ label: `line ${i + 1}`, text: line, cells: splitCsvLine(line) }))
+    .slice(1)
+    .filter((row) => row.text.trim());
+
+  return buildCandles(file, splitCsvLine(lines[0]), rows, `header: ${lines[0]}`);
+}
+
+/**
+ * Turn rows read by another reader (e.g. Parquet) into candles
+ *
+ * Column names follow the CSV rules; values may be numbers, bigints,
+ * strings or Dates.
+ *
+ * @param file - For error messages
+ * @param records - One object per row, keyed by column name
+ * @returns Candles, oldest first
+ * @throws PriceDataError on a missing column or an unreadable row (with its row number)
+ */
+export function candlesFromRecords(file: string, records: Array<Record<string, unknown>>): Candle[] {
+  const header = records.length > 0 ? Object.keys(records[0]) : [];
+  const rows = records.map((record, i) => ({
+    label: `row ${i + 1}`,
+    text: JSON.stringify(record, (_, v) => (typeof v === 'bigint' ? v.toString() : v)),
+    cells: header.map((name) => record[name]),
+  }));
+
+  return buildCandles(file, header, rows, `columns: ${header.join(', ') || 'none'}`);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** One row of a price file, before conversion */
+interface PriceRow {
+  label: string;                 // e.g. 'line 5' or 'row 4', for errors
+  text: string;                  // The row as read, for errors
+  cells: unknown[];              // Values in header order
+}
+
+/**
+ * Candles from a header and rows, oldest first
+ * A repeated timestamp keeps the last row.
+ */
+function buildCandles(file: string, header: string[], rows: PriceRow[], found: string): Candle[] {
+  const names = header.map((h) => h.trim().toLowerCase());
+  const index = (accepted: string[]) => names.findIndex((h) => accepted.includes(h));
+
+  const columns = {
+    time: index(COLUMNS.time),
+    open: index(COLUMNS.open),
+    high: index(COLUMNS.high),
+    low: index(COLUMNS.low),
+    close: index(COLUMNS.close),
+    volume: index(COLUMNS.volume),
+  };
+  const missing = (['time', 'open', 'high', 'low', 'close'] as const).filter((c) => columns[c] === -1);
+  if (missing.length > 0) {
+    throw new PriceDataError(file, `missing column${missing.length === 1 ? '' : 's'} ${missing.join(', ')} (${found})`);
+  }
+
+  const candles = new Map<number, Candle>();
+  for (const { label, text, cells } of rows) {
+    const time = parseTime(file, label, cells[columns.time]);
+    const volume = columns.volume === -1 ? undefined : cells[columns.volume];
+    const candle: Candle = {
+      time,
+      open: toNumber(cells[columns.open]),
+      high: toNumber(cells[columns.high]),
+      low: toNumber(cells[columns.low]),
+      close: toNumber(cells[columns.close]),
+      volume: volume === undefined || volume === null || volume === '' ? 0 : toNumber(volume),
+    };
+
+    // A zero or missing price would later be divided by (returns, indicator ratios)
+    const prices = [candle.open, candle.high, candle.low, candle.close];
+    if (Number.isNaN(time) || !Number.isFinite(candle.volume) || prices.some((v) => !Number.isFinite(v) || v <= 0)) {
+      throw new PriceDataError(file, `${label} is not a valid candle: ${text.slice(0, 120)}`);
+    }
+    candles.set(time, candle);
+  }
+
+  return [...candles.values()].sort((a, b) => a.time - b.time);
+}
+
+/** Cells of one CSV line, without surrounding quotes */
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''));
+}
+
+/** A cell as a number (NaN when empty or not numeric - Number('') would be 0) */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'string' && value.trim()) return Number(value);
+  return NaN;
+}
+
+/**
+ * Parse a candle time: epoch seconds or milliseconds, a date/time string or a Date
+ * Times without a zone ("2026-01-01 00:00:00") are UTC.
+ *
+ * @throws PriceDataError for numbers that are clearly in another unit
+ */
+function parseTime(file: string, label: string, value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+
+  if (typeof value === 'number' || typeof value === 'bigint' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value))) {
+    const n = Number(value);
+    if (n > MAX_EPOCH_MS) {
+      throw new PriceDataError(file, `${label} has time ${value}, too large for epoch seconds or milliseconds - convert microsecond or nanosecond timestamps first`);
+    }
+    if (COMPACT_DATE.test(String(value))) {
+      throw new PriceDataError(file, `${label} has time ${value}, which looks like a YYYYMMDD date - write it as YYYY-MM-DD`);
+    }
+    return n < 1e12 ? n * 1000 : n;          // 1e12 ms is 2001, so smaller values are seconds
+  }
+  if (typeof value !== 'string' || !value) return NaN;
+
+  const iso = value.replace(' ', 'T');
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(iso);
+  return Date.parse(hasZone || !iso.includes('T') ? iso : `${iso}Z`);
+}
@@ -0,0 +1,26 @@
+/**
+ * Local State Paths
+ *
+ * Caches, ledgers and sessions written by the AI tools live in one
+ * git-ignored directory at the project root:
+ *
+ *   <project>/.ai-tools/
+ *
+ * Set AI_TOOLS_HOME to put it somewhere else (e.g. a shared volume for cron jobs).
+ */
+
+import { join, resolve } from 'node:path';
+
+/** Repository root (this file lives in ai/tools/shared) */
+export const PROJECT_ROOT = resolve(__dirname, '../../..');
+
+/**
+ * Directory for local tool state
+ *
+ * @param parts - Optional sub-path inside the state directory
+ * @returns Absolute path (not created - callers mkdir as needed)
+ */
+export function statePath(...parts: string[]): string {
+  const base = process.env.AI_TOOLS_HOME || join(PROJECT_ROOT, '.ai-tools');
+  return join(base, ...parts);
+}
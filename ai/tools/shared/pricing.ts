@@ -0,0 +1,87 @@
+/**
+ * Model Pricing
+ *
+ * USD per 1M tokens for every model the clients can call. Used by the
+ * usage ledger to turn token counts into cost.
+ *
+ * sonar-deep-research also bills the tokens it reads from sources
+ * (citation tokens), the tokens it reasons with, and each search query it
+ * runs - those are priced too. The other Perplexity models' flat
+ * per-request search fees are not included, so their real bills run
+ * slightly higher than the ledger.
+ *
+ * @see https://docs.perplexity.ai/getting-started/pricing
+ * @see https://ai.google.dev/gemini-api/docs/pricing
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Price of one model, in USD per 1M tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  citation?: number;             // Per 1M citation tokens (deep research)
+  reasoning?: number;            // Per 1M reasoning tokens (deep research)
+  searchQueries?: number;        // Per 1K search queries (deep research)
+}
+
+/** Usage billed on top of prompt and completion tokens */
+export interface ExtraUsage {
+  citation_tokens?: number;
+  reasoning_tokens?: number;
+  search_queries?: number;
+}
+
+// ============================================================================
+// Price Table
+// ============================================================================
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Perplexity
+  'sonar': { input: 1, output: 1 },
+  'sonar-pro': { input: 3, output: 15 },
+  'sonar-reasoning': { input: 1, output: 5 },
+  'sonar-reasoning-pro': { input: 2, output: 8 },
+  'sonar-deep-research': { input: 2, output: 8, citation: 2, reasoning: 3, searchQueries: 5 },
+
+  // Gemini
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Estimate the cost of one call
+ *
+ * @param model - Model name as returned by the API
+ * @param promptTokens - Input tokens
+ * @param completionTokens - Output tokens
+ * @param extra - Citation/reasoning tokens and search queries, for models that bill them
+ * @returns Cost in USD (0 for unknown models)
+ */
+export function estimateCost(model: string, promptTokens: number, completionTokens: number, extra: ExtraUsage = {}): number {
+  // APIs sometimes return versioned names (e.g. 'gemini-2.5-flash-001')
+  const price = MODEL_PRICES[model]
+    ?? Object.entries(MODEL_PRICES)
+      .filter(([name]) => model.startsWith(name))
+      .sort(([a], [b]) => b.length - a.length)[0]?.[1];
+
+  if (!price) {
+    return 0;
+  }
+
+  const tokens = promptTokens * price.input
+    + completionTokens * price.output
+    + (extra.citation_tokens || 0) * (price.citation || 0)
+    + (extra.reasoning_tokens || 0) * (price.reasoning || 0);
+  return tokens / 1_000_000 + ((extra.search_queries || 0) * (price.searchQueries || 0)) / 1_000;
+}
@@ -0,0 +1,82 @@
+/**
+ * Client-side Token Bucket Rate Limiter
+ *
+ * Keeps us under each provider's requests-per-minute quota so a long
+ * watchlist run spaces its calls out instead of hitting 429s.
+ *
+ * How it works:
+ * - The bucket holds up to `burst` tokens and starts full
+ * - Tokens refill continuously at `requestsPerMinute / 60` per second
+ * - Every request takes one token, waiting for a refill if the bucket is empty
+ *
+ * Usage:
+ *   const limiter = new TokenBucket({ requestsPerMinute: 50 });
+ *   await limiter.take();  // resolves when a request may be sent
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Rate limit settings for one provider */
+export interface RateLimitOptions {
+  requestsPerMinute: number;   // Sustained request rate
+  burst?: number;              // Max requests sent back-to-back (defaults to 1)
+}
+
+// ============================================================================
+// Token Bucket
+// ============================================================================
+
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions) {
+    this.capacity = Math.max(1, options.burst ?? 1);
+    this.refillPerMs = options.requestsPerMinute / 60_000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a token is available, then take it
+   *
+   * Callers are served in order, so concurrent requests queue up fairly.
+   */
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.waitForToken());
+    this.queue = next;
+    return next;
+  }
+
+  private async waitForToken(): Promise<void> {
+    this.refill();
+
+    if (this.tokens < 1) {
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      await sleep(waitMs);
+      this.refill();
+    }
+
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Promise-based setTimeout */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
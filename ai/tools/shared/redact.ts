@@ -0,0 +1,78 @@
+/**
+ * Secret Redaction
+ *
+ * API keys must never end up in error messages, logs or saved files.
+ * Keys loaded through credentials.ts are registered here; anything that
+ * prints or stores provider output runs it through redactSecrets() first.
+ *
+ * Besides registered keys, a few shapes are always masked:
+ * - Google API keys (AIza...)
+ * - Perplexity keys (pplx-...)
+ * - `key=` query parameters and `Bearer` tokens
+ *
+ * Usage:
+ *   registerSecret(apiKey);
+ *   console.error(redactSecrets(error.message));
+ */
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/** Keys seen so far, longest first so overlapping keys are fully masked */
+const secrets: string[] = [];
+
+/** Secret shapes masked even when the key was never registered */
+const SECRET_PATTERNS: RegExp[] = [
+  /AIza[0-9A-Za-z_-]{20,}/g,
+  /pplx-[0-9A-Za-z]{20,}/g,
+  /([?&]key=)[^&\s"']+/g,
+  /(Bearer\s+)[^\s"']+/g,
+];
+
+/**
+ * Remember a secret so redactSecrets() masks it
+ *
+ * Very short values are ignored - masking them would mangle normal text.
+ */
+export function registerSecret(secret: string): void {
+  if (secret.length >= 8 && !secrets.includes(secret)) {
+    secrets.push(secret);
+    secrets.sort((a, b) => b.length - a.length);
+  }
+}
+
+/**
+ * Mask every known secret in a piece of text
+ *
+ * @param text - Message, log line or response body
+ * @returns The text with secrets replaced by a masked form (e.g. "AIza…x9Qk")
+ */
+export function redactSecrets(text: string): string {
+  let result = text;
+
+  for (const secret of secrets) {
+    result = result.split(secret).join(maskSecret(secret));
+  }
+
+  for (const pattern of SECRET_PATTERNS) {
+    result = result.replace(pattern, (match, prefix?: string) =>
+      typeof prefix === 'string' ? `${prefix}${maskSecret(match.slice(prefix.length))}` : maskSecret(match)
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Short, recognisable stand-in for a secret
+ *
+ * Keeps the first 4 and last 4 characters of long keys so you can tell
+ * which key was used, without exposing it.
+ */
+export function maskSecret(secret: string): string {
+  if (secret.includes('…')) {
+    return secret;  // Already masked
+  }
+  return secret.length > 16 ? `${secret.slice(0, 4)}…${secret.slice(-4)}` : '…';
+}
@@ -0,0 +1,173 @@
+/**
+ * On-disk Response Cache with TTL
+ *
+ * Stores API responses as one JSON file per request so repeated research
+ * calls for the same prompt don't cost money again.
+ *
+ * Layout:
+ *   .ai-tools/cache/<namespace>/<sha256 of key>.json
+ *
+ * Each entry records when it was written and when it expires; expired
+ * entries are ignored on read and removed by `clear({ expiredOnly: true })`.
+ *
+ * Usage:
+ *   const cache = new ResponseCache('perplexity');
+ *   const key = cache.key({ model, messages, temperature });
+ *   const hit = cache.get<PerplexityResponse>(key);
+ *   if (!hit) cache.set(key, response, 15 * 60_000);
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { statePath } from './paths';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A cached value plus its bookkeeping */
+export interface CacheEntry<T> {
+  created_at: string;   // ISO timestamp when the value was stored
+  expires_at: string;   // ISO timestamp after which it is stale
+  value: T;
+}
+
+/** Summary of what is in a cache directory */
+export interface CacheStats {
+  dir: string;
+  entries: number;      // Total files
+  fresh: number;        // Not yet expired
+  expired: number;      // Past their TTL (or unreadable)
+  bytes: number;        // Total size on disk
+  oldest?: string;      // created_at of the oldest entry
+  newest?: string;      // created_at of the newest entry
+}
+
+// ============================================================================
+// Cache Implementation
+// ============================================================================
+
+export class ResponseCache {
+  readonly dir: string;
+
+  /**
+   * @param namespace - Sub-directory name, usually the provider ('perplexity')
+   * @param dir - Override the cache directory (defaults to .ai-tools/cache/<namespace>)
+   */
+  constructor(namespace: string, dir?: string) {
+    this.dir = dir || statePath('cache', namespace);
+  }
+
+  /**
+   * Build a stable cache key from request parameters
+   *
+   * @param parts - Anything JSON-serialisable that identifies the request
+   * @returns Hex sha256 digest
+   */
+  key(parts: unknown): string {
+    return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  }
+
+  /**
+   * Look up a fresh entry
+   *
+   * @returns The entry, or undefined if missing, expired or unreadable
+   */
+  get<T>(key: string): CacheEntry<T> | undefined {
+    const entry = this.read<T>(this.file(key));
+    if (!entry || Date.parse(entry.expires_at) <= Date.now()) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Store a value (atomically - a crash never leaves a half-written entry)
+   *
+   * @param ttlMs - How long the value stays fresh
+   */
+  set<T>(key: string, value: T, ttlMs: number): void {
+    mkdirSync(this.dir, { recursive: true });
+
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlMs).toISOString(),
+      value,
+    };
+
+    const file = this.file(key);
+    const tmp = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(entry));
+    renameSync(tmp, file);
+  }
+
+  /** Count entries and their sizes */
+  stats(): CacheStats {
+    const stats: CacheStats = { dir: this.dir, entries: 0, fresh: 0, expired: 0, bytes: 0 };
+
+    for (const file of this.files()) {
+      const entry = this.read<unknown>(file);
+      stats.entries++;
+      stats.bytes += statSync(file).size;
+
+      if (!entry || Date.parse(entry.expires_at) <= Date.now()) {
+        stats.expired++;
+      } else {
+        stats.fresh++;
+      }
+
+      if (entry) {
+        if (!stats.oldest || entry.created_at < stats.oldest) stats.oldest = entry.created_at;
+        if (!stats.newest || entry.created_at > stats.newest) stats.newest = entry.created_at;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Delete cache entries
+   *
+   * @param options.expiredOnly - Keep entries that are still fresh
+   * @returns Number of files removed
+   */
+  clear(options: { expiredOnly?: boolean } = {}): number {
+    let removed = 0;
+
+    for (const file of this.files()) {
+      if (options.expiredOnly) {
+        const entry = this.read<unknown>(file);
+        if (entry && Date.parse(entry.expires_at) > Date.now()) {
+          continue;
+        }
+      }
+      unlinkSync(file);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  private file(key: string): string {
+    return join(this.dir, `${key}.json`);
+  }
+
+  private files(): string[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+    return readdirSync(this.dir)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => join(this.dir, name));
+  }
+
+  private read<T>(file: string): CacheEntry<T> | undefined {
+    try {
+      return JSON.parse(readFileSync(file, 'utf-8'));
+    } catch {
+      return undefined;  // Missing or corrupt - treat as a miss
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Fetch with Retry, Exponential Backoff and Rate Limiting
+ *
+ * Wraps `fetch` for the API clients:
+ * - Waits on the provider's token bucket before every attempt
+ * - Retries 429, 5xx and network errors with exponential backoff + full jitter
+ * - With `timeoutMs`, aborts a slow attempt (retried like a network error)
+ * - Honours the Retry-After header (seconds or HTTP date) when present
+ * - With several API keys, switches to the next key on 429 instead of waiting
+ * - Throws a typed ApiError (see errors.ts) that records the attempt count
+ *
+ * Usage:
+ *   const response = await fetchWithRetry(url, init, {
+ *     provider: 'perplexity',
+ *     limiter,
+ *     keys,
+ *     authHeaders: (key) => ({ Authorization: `Bearer ${key}` }),
+ *   });
+ */
+
+import { KeyRing } from './credentials';
+import { ApiError, ApiProvider, NetworkError, RateLimitError, createApiError, providerLabel } from './errors';
+import { TokenBucket, sleep } from './rate-limiter';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Backoff settings (all optional - defaults suit interactive CLI use) */
+export interface RetryOptions {
+  maxAttempts?: number;    // Total attempts including the first (default: 4)
+  baseDelayMs?: number;    // Delay before the first retry (default: 1000)
+  maxDelayMs?: number;     // Upper bound for any single wait (default: 30000)
+}
+
+/** Everything fetchWithRetry needs besides the request itself */
+export interface FetchWithRetryOptions extends RetryOptions {
+  provider: ApiProvider;
+  limiter?: TokenBucket;
+  keys?: KeyRing;                                         // Keys to rotate through on 429
+  authHeaders?: (key: string) => Record<string, string>;  // Auth headers for the current key
+  timeoutMs?: number;                                     // Per-attempt limit, body included (default: none)
+}
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+/**
+ * Send a request, retrying transient failures
+ *
+ * @param url - Request URL
+ * @param init - Standard fetch options (auth headers are added per attempt)
+ * @param options - Provider, limiter, keys and backoff settings
+ * @returns The first OK response
+ * @throws ApiError subclass once retries are exhausted or the error is not retryable
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: FetchWithRetryOptions
+): Promise<Response> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 4);
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+
+  for (let attempt = 1; ; attempt++) {
+    await options.limiter?.take();
+
+    let error: ApiError;
+    try {
+      const response = await fetch(url, withTimeout(withAuth(init, options), options.timeoutMs));
+      if (response.ok) {
+        return response;
+      }
+
+      const body = await response.text();
+      error = createApiError(options.provider, response.status, body, parseRetryAfter(response.headers.get('retry-after')));
+    } catch (cause) {
+      const reason = cause instanceof Error ? cause.message : String(cause);
+      error = new NetworkError(options.provider, `${providerLabel(options.provider)} network error: ${reason}`, cause);
+    }
+
+    if (!error.retryable || attempt >= maxAttempts) {
+      error.attempts = attempt;
+      if (attempt > 1) {
+        error.message += ` (after ${attempt} attempts)`;
+      }
+      throw error;
+    }
+
+    // Another key can retry straight away; the limited one sits out its Retry-After
+    if (error instanceof RateLimitError && options.keys && options.keys.size > 1 && options.keys.rotate(error.retryAfterMs)) {
+      continue;
+    }
+
+    await sleep(backoffDelay(attempt, error, baseDelayMs, maxDelayMs));
+  }
+}
+
+/** Request options with the current key's auth headers merged in */
+function withAuth(init: RequestInit, options: FetchWithRetryOptions): RequestInit {
+  if (!options.keys || !options.authHeaders) {
+    return init;
+  }
+
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(options.authHeaders(options.keys.current))) {
+    headers.set(name, value);
+  }
+  return { ...init, headers };
+}
+
+/** Request options that abort after `timeoutMs` (and still on the caller's own signal) */
+function withTimeout(init: RequestInit, timeoutMs?: number): RequestInit {
+  if (!timeoutMs) {
+    return init;
+  }
+
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return { ...init, signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout };
+}
+
+/**
+ * How long to wait before the next attempt
+ *
+ * Uses Retry-After when the server sent one, otherwise "full jitter":
+ * a random delay between 0 and base * 2^(attempt-1), capped at maxDelayMs.
+ */
+function backoffDelay(attempt: number, error: ApiError, baseDelayMs: number, maxDelayMs: number): number {
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, maxDelayMs);
+  }
+
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.random() * ceiling;
+}
+
+/**
+ * Parse a Retry-After header value into milliseconds
+ *
+ * @param value - Either delta-seconds ("30") or an HTTP date
+ * @returns Delay in ms, or undefined if missing/unparseable
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -0,0 +1,190 @@
+/**
+ * JSON Schema Subset and Runtime Validation
+ *
+ * Both providers can be asked for structured output that follows a JSON
+ * schema (Perplexity `response_format`, Gemini `responseSchema`), but the
+ * models still occasionally return something else. These helpers let the
+ * clients check the parsed output before a trading bot ever sees it.
+ *
+ * Only the keywords we use are supported: type, properties, required,
+ * items, enum, minimum/maximum, minItems/maxItems, minLength.
+ *
+ * Usage:
+ *   const errors = validateSchema(extractJson(text), SENTIMENT_SCHEMA);
+ *   if (errors.length > 0) { ...re-ask the model... }
+ *
+ * Callers that can't return a flagged placeholder throw
+ * SchemaValidationError once re-asking stops helping.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** The JSON schema keywords understood by validateSchema() */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+}
+
+/**
+ * How a structured result was obtained
+ * - valid: first response passed validation
+ * - repaired: passed after re-asking the model
+ * - invalid: never passed validation (fields are placeholders, don't trade on it)
+ */
+export type ParseStatus = 'valid' | 'repaired' | 'invalid';
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/** The model never produced output matching the schema */
+export class SchemaValidationError extends Error {
+  readonly errors: string[];     // Problems with the last response
+  readonly raw: string;          // Last raw model output, for debugging
+  readonly attempts: number;     // How many responses were checked
+
+  constructor(subject: string, errors: string[], raw: string, attempts: number) {
+    super(`${subject} failed schema validation after ${attempts} attempt(s): ${errors.join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.errors = errors;
+    this.raw = raw;
+    this.attempts = attempts;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse JSON from a model response
+ *
+ * Accepts bare JSON, JSON wrapped in a markdown code block, or JSON
+ * surrounded by prose (the outermost {...} is used).
+ *
+ * @param text - Raw model output
+ * @returns Parsed value
+ * @throws SyntaxError if no JSON object can be found
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to the more lenient strategies
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1]);
+    } catch {
+      // Fall through
+    }
+  }
+
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    return JSON.parse(trimmed.slice(start, end + 1));
+  }
+
+  throw new SyntaxError('No JSON object found in response');
+}
+
+/**
+ * Check a value against a schema
+ *
+ * @param value - Parsed JSON
+ * @param schema - Expected shape
+ * @param path - Location used in error messages (defaults to '$')
+ * @returns Human-readable problems; empty when the value is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) {
+          errors.push(...validateSchema(record[key], child, `${path}.${key}`));
+        }
+      }
+      return errors;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+      }
+      return errors;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path} must be a number`];
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return [`${path} must be a boolean`];
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  return errors;
+}
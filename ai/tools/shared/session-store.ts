@@ -0,0 +1,170 @@
+/**
+ * Named Conversation Sessions
+ *
+ * Persists multi-turn conversations so a CLI can be closed and the
+ * conversation resumed later by name.
+ *
+ * Layout:
+ *   .ai-tools/sessions/<namespace>/<name>.json
+ *
+ * The store keeps the full history; callers trim what they *send* with
+ * trimToTokenBudget() so long sessions don't blow the context window.
+ *
+ * Usage:
+ *   const store = new SessionStore<ChatMessage>('perplexity');
+ *   const session = store.load('btc-etf') ?? store.create('btc-etf', 'sonar-pro');
+ *   session.messages.push(...);
+ *   store.save(session);
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { statePath } from './paths';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A saved conversation */
+export interface Session<M> {
+  name: string;
+  model: string;          // Model used for the next turn
+  created_at: string;
+  updated_at: string;
+  messages: M[];          // Full history, oldest first
+}
+
+/** One line of `list()` output */
+export interface SessionSummary {
+  name: string;
+  model: string;
+  messages: number;
+  updated_at: string;
+}
+
+// ============================================================================
+// Store Implementation
+// ============================================================================
+
+export class SessionStore<M> {
+  readonly dir: string;
+
+  /**
+   * @param namespace - Sub-directory name, usually the provider ('perplexity')
+   * @param dir - Override the directory (defaults to .ai-tools/sessions/<namespace>)
+   */
+  constructor(namespace: string, dir?: string) {
+    this.dir = dir || statePath('sessions', namespace);
+  }
+
+  /** Start a new, empty session (not saved until save() is called) */
+  create(name: string, model: string): Session<M> {
+    const now = new Date().toISOString();
+    return { name: validateName(name), model, created_at: now, updated_at: now, messages: [] };
+  }
+
+  /**
+   * Load a saved session
+   *
+   * @returns The session, or undefined if none exists with that name
+   * @throws Error if the file exists but is not valid JSON
+   */
+  load(name: string): Session<M> | undefined {
+    const file = this.file(name);
+    if (!existsSync(file)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(readFileSync(file, 'utf-8'));
+    } catch {
+      throw new Error(`Session file ${file} is corrupt - fix or delete it`);
+    }
+  }
+
+  /** Write a session to disk (atomically), updating its timestamp */
+  save(session: Session<M>): void {
+    mkdirSync(this.dir, { recursive: true });
+    session.updated_at = new Date().toISOString();
+
+    const file = this.file(session.name);
+    const tmp = `${file}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(session, null, 2));
+    renameSync(tmp, file);
+  }
+
+  /** All saved sessions, most recently used first */
+  list(): SessionSummary[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const entry of readdirSync(this.dir)) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const session: Session<M> = JSON.parse(readFileSync(join(this.dir, entry), 'utf-8'));
+        summaries.push({
+          name: session.name,
+          model: session.model,
+          messages: session.messages.length,
+          updated_at: session.updated_at,
+        });
+      } catch {
+        // Skip unreadable files rather than hiding every other session
+      }
+    }
+
+    return summaries.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  }
+
+  private file(name: string): string {
+    return join(this.dir, `${validateName(name)}.json`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Rough token count for budgeting (~4 characters per token for English)
+ *
+ * Good enough for trimming history; use the provider's tokenizer when
+ * exact counts matter.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Keep the newest messages that fit in a token budget
+ *
+ * @param messages - Full history, oldest first
+ * @param maxTokens - Budget for the returned messages
+ * @param tokensOf - Token estimate for one message
+ * @returns The longest suffix of `messages` within budget (always at least the last message)
+ */
+export function trimToTokenBudget<M>(messages: M[], maxTokens: number, tokensOf: (message: M) => number): M[] {
+  let total = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const tokens = tokensOf(messages[start - 1]);
+    if (total + tokens > maxTokens && start < messages.length) {
+      break;
+    }
+    total += tokens;
+    start--;
+  }
+
+  return messages.slice(start);
+}
+
+/** Session names become file names, so keep them simple */
+function validateName(name: string): string {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new Error(`Invalid session name "${name}" - use letters, numbers, '.', '-' and '_'`);
+  }
+  return name;
+}
@@ -0,0 +1,464 @@
+/**
+ * Append-only Signal Store
+ *
+ * Sentiment signals from every tool are kept in JSONL files - one Signal
+ * (see signal.ts) per line - so saving a signal never rewrites the ones
+ * before it.
+ *
+ * Default file:
+ *   .ai-tools/signals.jsonl  (every CLI records its signals here; `-o` adds a copy)
+ *
+ * recordSignals() writes the `-o` copy first; a failure on the default file
+ * is reported to the caller rather than thrown, so it never costs the
+ * output that was asked for.
+ *
+ * Safety:
+ * - Appends hold an exclusive `<file>.lock` so concurrent CLI runs can't interleave
+ * - Each append is one fsynced write; a line cut short by a crash is reported
+ *   as corrupt on read and the next append starts on a fresh line
+ * - Appends only look at the ends of the file, so they stay cheap as it grows
+ * - Corrupt lines are reported, never dropped or overwritten
+ * - Files written by older versions (a JSON array) are converted to JSONL on
+ *   the first append, via a temp file and rename; an array that is
+ *   unreadable or holds records that can't be upgraded is left alone and
+ *   throws CorruptSignalFileError
+ *
+ * Older records are upgraded to the current Signal version as they are
+ * read; migrate() makes that permanent and reports what it couldn't convert.
+ *
+ * Usage:
+ *   const store = new SignalStore();
+ *   store.append([toSignal(analysis, 'gemini')]);
+ *   recordSignals([signal], { output: 'btc.jsonl', onStoreError: (e) => console.warn(e.message) });
+ *   const { signals, corrupt } = store.query({ symbol: 'BTC', since: new Date('2026-01-01') });
+ */
+
+import { closeSync, copyFileSync, existsSync, fstatSync, fsyncSync, mkdirSync, openSync, readFileSync, readSync, renameSync, statSync, unlinkSync, writeFileSync, writeSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { statePath } from './paths';
+import { Signal, SIGNAL_SCHEMA_VERSION, SignalConversionError, SignalProvider, toSignal } from './signal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Filters for query() - all optional, combined with AND */
+export interface SignalQuery {
+  symbol?: string;               // Case-insensitive
+  provider?: SignalProvider;
+  since?: Date;                  // Inclusive
+  until?: Date;                  // Inclusive
+}
+
+/** A line (or array item) that could not be read as a signal */
+export interface CorruptLine {
+  line: number;                  // 1-based line number (item number in a JSON array)
+  text: string;                  // The line, shortened
+  error: string;
+}
+
+/** Signals plus any lines that could not be read */
+export interface SignalReadResult {
+  signals: Signal[];
+  corrupt: CorruptLine[];
+}
+
+/** Options for migrate() */
+export interface MigrateOptions {
+  output?: string;               // Write here instead of replacing the file
+  dryRun?: boolean;              // Only report, write nothing
+}
+
+/** What migrate() did */
+export interface MigrationReport {
+  file: string;                  // File that was read
+  output?: string;               // File that was written (undefined for a dry run)
+  backup?: string;               // Copy of the original, when replaced in place
+  rejectedFile?: string;         // Records that could not be converted, kept verbatim
+  total: number;                 // Records read
+  upgraded: number;              // Records converted from an older shape
+  current: number;               // Records already at the current version
+  rejected: CorruptLine[];
+}
+
+/** Options for recordSignals() */
+export interface RecordOptions {
+  output?: string;                        // Also append to this file (written first; errors are thrown)
+  onStoreError?: (error: Error) => void;  // Called when the default store can't be written (default: throw)
+}
+
+/** Options for creating a store */
+export interface SignalStoreOptions {
+  lockTimeoutMs?: number;        // How long append() waits for the lock (default: 5000)
+  staleLockMs?: number;          // Locks older than this are from a crashed process (default: 30000)
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/** The whole file is unreadable (e.g. a legacy JSON array that no longer parses) */
+export class CorruptSignalFileError extends Error {
+  readonly file: string;
+
+  constructor(file: string, reason: string) {
+    super(`Signal file ${file} is corrupt (${reason}) - it was not modified; fix or move it`);
+    this.name = 'CorruptSignalFileError';
+    this.file = file;
+  }
+}
+
+/** Another process held the lock for longer than the timeout */
+export class SignalStoreLockError extends Error {
+  readonly file: string;
+
+  constructor(file: string, waitedMs: number) {
+    super(`Timed out after ${waitedMs}ms waiting for ${file}.lock - if no other run is active, delete the lock file`);
+    this.name = 'SignalStoreLockError';
+    this.file = file;
+  }
+}
+
+// ============================================================================
+// Store Implementation
+// ============================================================================
+
+export class SignalStore {
+  readonly file: string;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+
+  /**
+   * @param file - JSONL file (defaults to .ai-tools/signals.jsonl)
+   * @param options - Lock timeout and stale-lock age
+   */
+  constructor(file?: string, options: SignalStoreOptions = {}) {
+    this.file = file || statePath('signals.jsonl');
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 30_000;
+  }
+
+  /**
+   * Append signals to the end of the file
+   *
+   * @param signals - Signals to store, in order
+   * @throws CorruptSignalFileError if a legacy JSON array file can't be parsed
+   * @throws SignalStoreLockError if the lock isn't released within the timeout
+   */
+  append(signals: Signal[]): void {
+    if (signals.length === 0) {
+      return;
+    }
+
+    mkdirSync(dirname(this.file), { recursive: true });
+    this.withLock(() => {
+      const lines = signals.map((s) => JSON.stringify(s) + '\n').join('');
+      const { first, last } = fileEdges(this.file);
+
+      if (first === '[') {
+        const legacy = parseLegacyArray(this.file, readFileSync(this.file, 'utf-8'));
+        if (legacy.corrupt.length > 0) {
+          throw new CorruptSignalFileError(this.file, `${legacy.corrupt.length} record(s) can't be converted - run signals migrate to see which`);
+        }
+        const tmp = `${this.file}.${process.pid}.tmp`;
+        writeFileSync(tmp, legacy.signals.map((s) => JSON.stringify(s) + '\n').join('') + lines);
+        renameSync(tmp, this.file);
+        return;
+      }
+
+      // Never glue a new record onto a line a crashed writer left unfinished
+      const prefix = last !== undefined && last !== '\n' ? '\n' : '';
+      const fd = openSync(this.file, 'a');
+      try {
+        writeSync(fd, prefix + lines);
+        fsyncSync(fd);
+      } finally {
+        closeSync(fd);
+      }
+    });
+  }
+
+  /**
+   * Read every signal in the file
+   *
+   * @returns Signals in file order, plus lines that could not be read
+   * @throws CorruptSignalFileError if a legacy JSON array file can't be parsed
+   */
+  read(): SignalReadResult {
+    if (!existsSync(this.file)) {
+      return { signals: [], corrupt: [] };
+    }
+
+    const content = readFileSync(this.file, 'utf-8');
+    if (isLegacyArray(content)) {
+      return parseLegacyArray(this.file, content);
+    }
+
+    return convertAll(jsonlItems(content));
+  }
+
+  /**
+   * Read the signals that match a filter
+   *
+   * @param filter - Symbol, provider and time range
+   * @returns Matching signals in file order, plus every corrupt line
+   */
+  query(filter: SignalQuery = {}): SignalReadResult {
+    const { signals, corrupt } = this.read();
+    const symbol = filter.symbol?.toUpperCase();
+
+    return {
+      signals: signals.filter((s) => {
+        const time = Date.parse(s.timestamp);
+        return (!symbol || s.symbol.toUpperCase() === symbol)
+          && (!filter.provider || s.provider === filter.provider)
+          && (!filter.since || time >= filter.since.getTime())
+          && (!filter.until || time <= filter.until.getTime());
+      }),
+      corrupt,
+    };
+  }
+
+  /**
+   * Rewrite the file with every record upgraded to the current Signal version
+   *
+   * Nothing is dropped: the original is kept as `<file>.bak` (when replaced
+   * in place) and records that can't be converted are written verbatim to
+   * `<output>.rejected.jsonl`.
+   *
+   * @param options - Separate output file, or a dry run that only reports
+   * @returns Counts and the rejected records with reasons
+   * @throws Error if the file doesn't exist or is a JSON array that doesn't parse
+   */
+  migrate(options: MigrateOptions = {}): MigrationReport {
+    if (!existsSync(this.file)) {
+      throw new Error(`Signal file not found: ${this.file}`);
+    }
+
+    return this.withLock(() => {
+      const content = readFileSync(this.file, 'utf-8');
+      const records = isLegacyArray(content) ? legacyItems(this.file, content) : jsonlItems(content);
+
+      const signals: Signal[] = [];
+      const rejected: CorruptLine[] = [];
+      const rejectedText: string[] = [];
+      let current = 0;
+
+      for (const { line, text, value, error } of records) {
+        try {
+          if (error) {
+            throw new SignalConversionError(error);
+          }
+          signals.push(toSignal(value as object));
+          if ((value as Record<string, unknown>).schema_version === SIGNAL_SCHEMA_VERSION) {
+            current++;
+          }
+        } catch (e) {
+          rejected.push({ line, text: text.slice(0, 120), error: e instanceof Error ? e.message : String(e) });
+          rejectedText.push(text);
+        }
+      }
+
+      const report: MigrationReport = {
+        file: this.file,
+        total: records.length,
+        upgraded: signals.length - current,
+        current,
+        rejected,
+      };
+      if (options.dryRun) {
+        return report;
+      }
+
+      const output = options.output || this.file;
+      if (output === this.file) {
+        // Never overwrite an earlier backup - it may be the only copy of the original records
+        report.backup = existsSync(`${this.file}.bak`) ? `${this.file}.${Date.now()}.bak` : `${this.file}.bak`;
+        copyFileSync(this.file, report.backup);
+      }
+      mkdirSync(dirname(output), { recursive: true });
+      if (rejectedText.length > 0) {
+        report.rejectedFile = `${output}.rejected.jsonl`;
+        writeFileSync(report.rejectedFile, rejectedText.map((t) => t.replace(/\n\s*/g, ' ') + '\n').join(''));
+      }
+
+      const tmp = `${output}.${process.pid}.tmp`;
+      writeFileSync(tmp, signals.map((s) => JSON.stringify(s) + '\n').join(''));
+      renameSync(tmp, output);
+      report.output = output;
+      return report;
+    });
+  }
+
+  /**
+   * Run `fn` while holding `<file>.lock`
+   *
+   * The lock is a file created with O_EXCL; a lock older than `staleLockMs`
+   * belongs to a process that died and is taken over.
+   */
+  private withLock<T>(fn: () => T): T {
+    const lockFile = `${this.file}.lock`;
+    const started = Date.now();
+
+    for (;;) {
+      try {
+        closeSync(openSync(lockFile, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      try {
+        if (Date.now() - statSync(lockFile).mtimeMs > this.staleLockMs) {
+          unlinkSync(lockFile);
+          continue;
+        }
+      } catch {
+        continue;  // Released between our open and stat - try again
+      }
+
+      if (Date.now() - started > this.lockTimeoutMs) {
+        throw new SignalStoreLockError(this.file, Date.now() - started);
+      }
+      sleepSync(25);
+    }
+
+    try {
+      return fn();
+    } finally {
+      unlinkSync(lockFile);
+    }
+  }
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Record signals in the default store, and in `options.output` if given
+ *
+ * The output file is written first - it's what the user asked for, so a
+ * lock timeout or corrupt default store must not lose it. Default-store
+ * failures go to `onStoreError` when one is given.
+ *
+ * @param signals - Signals to record, in order
+ * @param options - Extra output file and what to do when the default store fails
+ * @throws CorruptSignalFileError or SignalStoreLockError from the output file
+ */
+export function recordSignals(signals: Signal[], options: RecordOptions = {}): void {
+  const store = new SignalStore();
+  if (options.output) {
+    new SignalStore(options.output).append(signals);
+    if (resolve(options.output) === resolve(store.file)) {
+      return;
+    }
+  }
+
+  try {
+    store.append(signals);
+  } catch (error) {
+    if (!options.onStoreError) {
+      throw error;
+    }
+    options.onStoreError(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * First non-whitespace character and last character of a file (undefined
+ * when missing or empty), reading only as much as it takes to find them
+ */
+function fileEdges(file: string): { first?: string; last?: string } {
+  if (!existsSync(file)) {
+    return {};
+  }
+
+  const fd = openSync(file, 'r');
+  try {
+    const size = fstatSync(fd).size;
+    const buffer = Buffer.alloc(4096);
+    let first: string | undefined;
+    for (let position = 0; position < size && first === undefined; position += buffer.length) {
+      const bytes = readSync(fd, buffer, 0, buffer.length, position);
+      first = buffer.toString('latin1', 0, bytes).match(/\S/)?.[0];
+    }
+    const last = size > 0 && readSync(fd, buffer, 0, 1, size - 1) === 1 ? String.fromCharCode(buffer[0]) : undefined;
+    return { first, last };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** Files from before the store held one pretty-printed JSON array */
+function isLegacyArray(content: string): boolean {
+  return content.trimStart().startsWith('[');
+}
+
+/** One raw record of a file, before conversion */
+interface RawRecord {
+  line: number;
+  text: string;
+  value?: unknown;
+  error?: string;                // Set when the text isn't JSON
+}
+
+/** Records of a legacy JSON array file */
+function legacyItems(file: string, content: string): RawRecord[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(content);
+  } catch (error) {
+    throw new CorruptSignalFileError(file, error instanceof Error ? error.message : String(error));
+  }
+
+  return (items as unknown[]).map((value, i) => ({ line: i + 1, text: JSON.stringify(value), value }));
+}
+
+/** Records of a JSONL file (blank lines skipped) */
+function jsonlItems(content: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  content.split('\n').forEach((text, i) => {
+    if (!text.trim()) {
+      return;
+    }
+    try {
+      records.push({ line: i + 1, text, value: JSON.parse(text) });
+    } catch (error) {
+      records.push({ line: i + 1, text, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  return records;
+}
+
+/** Signals from a legacy JSON array file, with the items that can't be converted */
+function parseLegacyArray(file: string, content: string): SignalReadResult {
+  return convertAll(legacyItems(file, content));
+}
+
+/** Convert raw records, collecting the ones that fail with their reason */
+function convertAll(records: RawRecord[]): SignalReadResult {
+  const result: SignalReadResult = { signals: [], corrupt: [] };
+  for (const { line, text, value, error } of records) {
+    try {
+      if (error) {
+        throw new SignalConversionError(error);
+      }
+      result.signals.push(toSignal(value as object));
+    } catch (e) {
+      result.corrupt.push({ line, text: text.slice(0, 120), error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return result;
+}
+
+/** Block the thread briefly (append() is synchronous, like the usage ledger) */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,204 @@
+/**
+ * Unified, Versioned Trading Signal
+ *
+ * Perplexity (MarketSentiment), Gemini (SentimentAnalysis and friends) and
+ * the consensus command each return their own shape. Everything that is
+ * stored goes through toSignal() first, so downstream code (history,
+ * backtests, trading logic) only ever handles one type.
+ *
+ * Signal v1:
+ * - provider, model and prompt_version say exactly what produced it
+ * - score puts every signal on one scale: -1 (certain bearish) to +1
+ *   (certain bullish), i.e. direction x confidence
+ * - summary/key_points/citations are the shared human-readable parts
+ * - details keeps every provider-specific field, so nothing is lost
+ *
+ * Records written before signals were versioned (no schema_version) are
+ * upgraded by the same function; those that can't be throw
+ * SignalConversionError with the reason.
+ *
+ * Usage:
+ *   const signal = toSignal(await perplexity.getMarketSentiment('BTC'), 'perplexity');
+ *   new SignalStore().append([signal]);
+ */
+
+import { Citation, toCitation } from './citation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Current schema version - bump when Signal changes shape */
+export const SIGNAL_SCHEMA_VERSION = 1;
+
+/** What produced a signal */
+export type SignalProvider = 'perplexity' | 'gemini' | 'consensus';
+
+/** Every SignalProvider, for validating user input */
+export const SIGNAL_PROVIDERS: SignalProvider[] = ['perplexity', 'gemini', 'consensus'];
+
+/** Market view - 'conflict' only comes from consensus (providers disagree outright) */
+export type SignalSentiment = 'bullish' | 'bearish' | 'neutral' | 'conflict';
+
+/** One stored trading signal */
+export interface Signal {
+  schema_version: typeof SIGNAL_SCHEMA_VERSION;
+  provider: SignalProvider;
+  model: string;                               // e.g. 'sonar-pro' ('unknown' for upgraded records)
+  prompt_version: string;                      // e.g. 'gemini-sentiment/1' ('unversioned' for upgraded records)
+  symbol: string;
+  timestamp: string;                           // ISO timestamp the signal was produced
+  sentiment: SignalSentiment;
+  confidence: number;                          // 0.0 to 1.0
+  score: number;                               // -1 (bearish) to +1 (bullish)
+  summary: string;                             // Perplexity summary / Gemini reasoning
+  key_points: string[];
+  recommendation?: 'buy' | 'sell' | 'hold';    // Gemini only
+  risk_level?: 'low' | 'medium' | 'high';      // Gemini only
+  citations: Citation[];                       // Rated sources behind the signal
+  details?: Record<string, unknown>;           // Provider-specific fields (source quality, tool calls, opinions...)
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/** A record that can't be turned into a Signal */
+export class SignalConversionError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'SignalConversionError';
+  }
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/** Fields that become top-level Signal fields; everything else goes into `details` */
+const MAPPED_FIELDS = [
+  'schema_version', 'provider', 'source', 'model', 'prompt_version', 'symbol', 'timestamp', 'sentiment', 'signal',
+  'confidence', 'score', 'summary', 'reasoning', 'key_points', 'key_factors', 'recommendation', 'risk_level', 'citations',
+  'details',
+];
+
+const SENTIMENTS: SignalSentiment[] = ['bullish', 'bearish', 'neutral', 'conflict'];
+
+/**
+ * Turn a provider result, a consensus or an older stored record into a Signal
+ *
+ * Signals that are already current are checked and returned as-is.
+ *
+ * @param record - MarketSentiment, SentimentAnalysis (or subtype), Consensus, or a stored record
+ * @param provider - Who produced it (guessed from its fields when omitted)
+ * @returns The v1 signal
+ * @throws SignalConversionError if required fields are missing or invalid
+ */
+export function toSignal(record: object, provider?: SignalProvider): Signal {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    throw new SignalConversionError('not a JSON object');
+  }
+
+  const r = record as Record<string, unknown>;
+  if (r.schema_version !== undefined && r.schema_version !== SIGNAL_SCHEMA_VERSION) {
+    throw new SignalConversionError(`unsupported schema_version ${JSON.stringify(r.schema_version)}`);
+  }
+  if (typeof r.symbol !== 'string' || !r.symbol) {
+    throw new SignalConversionError('missing symbol');
+  }
+  if (typeof r.timestamp !== 'string' || Number.isNaN(Date.parse(r.timestamp))) {
+    throw new SignalConversionError(`missing or invalid timestamp (${r.symbol})`);
+  }
+  if (r.parse_status === 'invalid') {
+    throw new SignalConversionError(`${r.symbol} ${r.timestamp}: output never validated (placeholder values)`);
+  }
+
+  const sentiment = (r.signal ?? r.sentiment) as SignalSentiment;
+  if (!SENTIMENTS.includes(sentiment)) {
+    throw new SignalConversionError(`${r.symbol} ${r.timestamp}: invalid sentiment ${JSON.stringify(sentiment)}`);
+  }
+  if (typeof r.confidence !== 'number' || r.confidence < 0 || r.confidence > 1) {
+    throw new SignalConversionError(`${r.symbol} ${r.timestamp}: confidence must be 0-1 (got ${JSON.stringify(r.confidence)})`);
+  }
+
+  const resolved = provider || providerOf(r);
+  const details = {
+    ...(r.details as Record<string, unknown> | undefined),
+    ...Object.fromEntries(Object.entries(r).filter(([key]) => !MAPPED_FIELDS.includes(key))),
+  };
+  const signal: Signal = {
+    schema_version: SIGNAL_SCHEMA_VERSION,
+    provider: resolved,
+    model: typeof r.model === 'string' ? r.model : modelOf(r),
+    prompt_version: typeof r.prompt_version === 'string' ? r.prompt_version : 'unversioned',
+    symbol: r.symbol.toUpperCase(),
+    timestamp: r.timestamp,
+    sentiment,
+    confidence: r.confidence,
+    score: typeof r.score === 'number' ? r.score : signalScore(sentiment, r.confidence),
+    summary: String(r.summary ?? r.reasoning ?? ''),
+    key_points: toStrings(r.key_points ?? r.key_factors),
+    recommendation: r.recommendation as Signal['recommendation'],
+    risk_level: r.risk_level as Signal['risk_level'],
+    citations: citationsOf(r),
+    details: Object.keys(details).length > 0 ? details : undefined,
+  };
+
+  // Drop unset optional fields so stored lines stay compact
+  return JSON.parse(JSON.stringify(signal));
+}
+
+/**
+ * Put a sentiment and confidence on the -1..+1 scale
+ *
+ * @returns +confidence for bullish, -confidence for bearish, 0 otherwise
+ */
+export function signalScore(sentiment: SignalSentiment, confidence: number): number {
+  const direction = sentiment === 'bullish' ? 1 : sentiment === 'bearish' ? -1 : 0;
+  return Math.round(direction * confidence * 1000) / 1000;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Guess the provider of an older record from its fields
+ *
+ * Consensus has `opinions`, Gemini has `reasoning`, Perplexity has
+ * `key_factors`/`summary`.
+ */
+function providerOf(r: Record<string, unknown>): SignalProvider {
+  const stated = r.provider ?? r.source;
+  if (SIGNAL_PROVIDERS.includes(stated as SignalProvider)) {
+    return stated as SignalProvider;
+  }
+  return 'opinions' in r ? 'consensus' : 'reasoning' in r ? 'gemini' : 'perplexity';
+}
+
+/** Model of a consensus (both underlying models), or 'unknown' */
+function modelOf(r: Record<string, unknown>): string {
+  const models = [r.perplexity, r.gemini]
+    .map((inner) => (inner as Record<string, unknown> | undefined)?.model)
+    .filter((m): m is string => typeof m === 'string');
+  return models.length > 0 ? models.join('+') : 'unknown';
+}
+
+/** Rated citations of a record (and, for a consensus, of both opinions), de-duplicated by URL */
+function citationsOf(r: Record<string, unknown>): Citation[] {
+  const lists = [r.citations, (r.perplexity as Record<string, unknown> | undefined)?.citations, (r.gemini as Record<string, unknown> | undefined)?.citations];
+  const citations = new Map<string, Citation>();
+
+  for (const list of lists) {
+    if (!Array.isArray(list)) continue;
+    for (const c of list as (Citation | string)[]) {
+      const citation = toCitation(c);
+      citations.set(citation.url, citation);
+    }
+  }
+  return [...citations.values()];
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
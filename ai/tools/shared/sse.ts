@@ -0,0 +1,57 @@
+/**
+ * Server-Sent Events Parser
+ *
+ * Both Perplexity (`stream: true`) and Gemini (`?alt=sse`) stream their
+ * responses as SSE: blocks of `data: <json>` lines separated by blank lines.
+ * This turns a fetch response body into an async iterator of those payloads.
+ *
+ * Usage:
+ *   for await (const data of parseSSE(response.body!)) {
+ *     const chunk = JSON.parse(data);
+ *   }
+ */
+
+/**
+ * Iterate over the `data:` payloads of an SSE stream
+ *
+ * Multi-line data fields are joined with newlines, as per the SSE spec.
+ * Comment lines (starting with ':') and other fields (event, id) are ignored.
+ *
+ * @param body - Response body stream from fetch
+ * @returns Async iterator of raw data strings (including a literal "[DONE]" if sent)
+ */
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(bytes, { stream: true });
+
+    // Process every complete line, keep the remainder for the next chunk
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+
+      if (line === '') {
+        // Blank line = end of event
+        if (data.length > 0) {
+          yield data.join('\n');
+          data = [];
+        }
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+
+  // Flush a final event that wasn't followed by a blank line
+  buffer += decoder.decode();
+  if (buffer.startsWith('data:')) {
+    data.push(buffer.slice(5).replace(/^ /, '').replace(/\r$/, ''));
+  }
+  if (data.length > 0) {
+    yield data.join('\n');
+  }
+}
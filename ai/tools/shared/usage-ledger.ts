@@ -0,0 +1,305 @@
+/**
+ * Token Usage and Cost Ledger
+ *
+ * Every API call made by the Perplexity and Gemini clients is appended to
+ * a local JSONL ledger, so we can see where the money goes and stop
+ * spending once a budget is used up.
+ *
+ * Ledger file:
+ *   .ai-tools/usage.jsonl  (one UsageRecord per line)
+ *
+ * Budgets (optional, in USD, UTC day/month):
+ *   AI_TOOLS_DAILY_BUDGET_USD=1.00
+ *   AI_TOOLS_MONTHLY_BUDGET_USD=20.00
+ *
+ * Usage:
+ *   const ledger = new UsageLedger({ command: 'perplexity sentiment' });
+ *   ledger.assertWithinBudget();          // throws BudgetExceededError
+ *   ledger.record({ provider: 'perplexity', model: 'sonar', prompt_tokens: 120, completion_tokens: 300 });
+ *   ledger.summarize('day');
+ *   usageReport('model', '2026-01-01');   // what `./gemini usage` and `./perplexity usage` print
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ApiProvider, BudgetExceededError } from './errors';
+import { statePath } from './paths';
+import { estimateCost, ExtraUsage } from './pricing';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One API call in the ledger */
+export interface UsageRecord {
+  timestamp: string;          // ISO timestamp of the call
+  provider: ApiProvider;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  citation_tokens?: number;   // Deep research only, like the two below
+  reasoning_tokens?: number;
+  search_queries?: number;
+  cost_usd: number;           // Estimated from shared/pricing.ts
+  command?: string;           // CLI command that made the call (e.g. 'gemini analyze')
+}
+
+/** Spending caps in USD - omit a field for no cap */
+export interface BudgetLimits {
+  daily_usd?: number;
+  monthly_usd?: number;
+}
+
+/** Options for creating a ledger */
+export interface UsageLedgerOptions {
+  file?: string;              // Ledger path (defaults to .ai-tools/usage.jsonl)
+  command?: string;           // Label stored with every record
+  budget?: BudgetLimits;      // Defaults to the AI_TOOLS_*_BUDGET_USD env vars
+}
+
+/** How to group the usage report */
+export type UsageGroupBy = 'day' | 'model' | 'command' | 'provider';
+
+/** Every UsageGroupBy, for validating user input */
+export const USAGE_GROUPS: UsageGroupBy[] = ['day', 'model', 'command', 'provider'];
+
+/** One row of a usage report */
+export interface UsageSummaryRow {
+  key: string;
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+}
+
+/** What the CLIs' `usage` command prints */
+export interface UsageReport {
+  heading: string;            // e.g. 'Usage by day:'
+  table: string[];            // formatUsageTable() lines (empty when nothing is recorded)
+  budget: string[];           // Spend against each configured budget
+}
+
+// ============================================================================
+// Ledger Implementation
+// ============================================================================
+
+export class UsageLedger {
+  readonly file: string;
+  readonly budget: BudgetLimits;
+  private command?: string;
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.file = options.file || statePath('usage.jsonl');
+    this.budget = options.budget || budgetFromEnv();
+    this.command = options.command;
+  }
+
+  /**
+   * Append a call to the ledger
+   *
+   * @param entry - Provider, model and token counts, plus any deep-research extras (cost and timestamp are filled in)
+   * @returns The stored record
+   */
+  record(entry: Pick<UsageRecord, 'provider' | 'model' | 'prompt_tokens' | 'completion_tokens'> & ExtraUsage): UsageRecord {
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      cost_usd: estimateCost(entry.model, entry.prompt_tokens, entry.completion_tokens, entry),
+      command: this.command,
+    };
+
+    // Single-line appends are atomic enough for concurrent CLI processes
+    mkdirSync(dirname(this.file), { recursive: true });
+    appendFileSync(this.file, JSON.stringify(record) + '\n');
+
+    return record;
+  }
+
+  /**
+   * Read ledger records
+   *
+   * @param since - Only return records at or after this time
+   * @returns Records in file order (unparseable lines are skipped)
+   */
+  records(since?: Date): UsageRecord[] {
+    if (!existsSync(this.file)) {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of readFileSync(this.file, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record: UsageRecord = JSON.parse(line);
+        if (!since || Date.parse(record.timestamp) >= since.getTime()) {
+          records.push(record);
+        }
+      } catch {
+        // Skip a partially written line rather than failing the whole report
+      }
+    }
+    return records;
+  }
+
+  /** Total cost of calls made at or after `since` */
+  spent(since: Date): number {
+    return this.records(since).reduce((sum, r) => sum + r.cost_usd, 0);
+  }
+
+  /**
+   * Refuse new calls once a budget is used up
+   *
+   * @throws BudgetExceededError if today's or this month's spend has reached its cap
+   */
+  assertWithinBudget(): void {
+    const { daily_usd, monthly_usd } = this.budget;
+    if (daily_usd === undefined && monthly_usd === undefined) {
+      return;
+    }
+
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    const monthRecords = this.records(monthStart);
+    const monthSpent = monthRecords.reduce((sum, r) => sum + r.cost_usd, 0);
+    const daySpent = monthRecords
+      .filter((r) => Date.parse(r.timestamp) >= dayStart.getTime())
+      .reduce((sum, r) => sum + r.cost_usd, 0);
+
+    if (daily_usd !== undefined && daySpent >= daily_usd) {
+      throw new BudgetExceededError('daily', daily_usd, daySpent);
+    }
+    if (monthly_usd !== undefined && monthSpent >= monthly_usd) {
+      throw new BudgetExceededError('monthly', monthly_usd, monthSpent);
+    }
+  }
+
+  /**
+   * Group records for the usage report
+   *
+   * @param groupBy - day (UTC), model, command or provider
+   * @param since - Only include records at or after this time
+   * @returns Rows sorted by key (day) or by cost, highest first (others)
+   */
+  summarize(groupBy: UsageGroupBy, since?: Date): UsageSummaryRow[] {
+    const rows = new Map<string, UsageSummaryRow>();
+
+    for (const record of this.records(since)) {
+      const key = groupKey(record, groupBy);
+      const row = rows.get(key) || { key, calls: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 };
+      row.calls++;
+      row.prompt_tokens += record.prompt_tokens;
+      row.completion_tokens += record.completion_tokens;
+      row.cost_usd += record.cost_usd;
+      rows.set(key, row);
+    }
+
+    const sorted = [...rows.values()];
+    return groupBy === 'day'
+      ? sorted.sort((a, b) => a.key.localeCompare(b.key))
+      : sorted.sort((a, b) => b.cost_usd - a.cost_usd);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read budget caps from the environment
+ *
+ * @returns Limits from AI_TOOLS_DAILY_BUDGET_USD / AI_TOOLS_MONTHLY_BUDGET_USD
+ */
+export function budgetFromEnv(): BudgetLimits {
+  return {
+    daily_usd: parseBudget(process.env.AI_TOOLS_DAILY_BUDGET_USD),
+    monthly_usd: parseBudget(process.env.AI_TOOLS_MONTHLY_BUDGET_USD),
+  };
+}
+
+/**
+ * Render report rows as aligned plain-text lines (for the CLIs)
+ *
+ * @param rows - Output of UsageLedger.summarize()
+ * @returns Header line, one line per row, and a totals line
+ */
+export function formatUsageTable(rows: UsageSummaryRow[]): string[] {
+  const total = rows.reduce(
+    (t, r) => ({
+      key: 'TOTAL',
+      calls: t.calls + r.calls,
+      prompt_tokens: t.prompt_tokens + r.prompt_tokens,
+      completion_tokens: t.completion_tokens + r.completion_tokens,
+      cost_usd: t.cost_usd + r.cost_usd,
+    }),
+    { key: 'TOTAL', calls: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 }
+  );
+
+  const width = Math.max(5, ...rows.map((r) => r.key.length));
+  const line = (key: string, calls: string, prompt: string, completion: string, cost: string) =>
+    `${key.padEnd(width)}  ${calls.padStart(6)}  ${prompt.padStart(10)}  ${completion.padStart(10)}  ${cost.padStart(10)}`;
+  const row = (r: UsageSummaryRow) =>
+    line(r.key, String(r.calls), String(r.prompt_tokens), String(r.completion_tokens), `$${r.cost_usd.toFixed(4)}`);
+
+  return [line('', 'calls', 'prompt', 'completion', 'cost'), ...rows.map(row), row(total)];
+}
+
+/**
+ * Build the report shown by the CLIs' `usage` command
+ *
+ * @param groupBy - day, model, command or provider (as typed by the user)
+ * @param since - Optional start date (YYYY-MM-DD or ISO time)
+ * @param ledger - Ledger to report on (defaults to .ai-tools/usage.jsonl)
+ * @throws Error on an unknown grouping or an unparseable date
+ */
+export function usageReport(groupBy: string, since?: string, ledger = new UsageLedger()): UsageReport {
+  if (!USAGE_GROUPS.includes(groupBy as UsageGroupBy)) {
+    throw new Error(`Unknown grouping "${groupBy}" (use ${USAGE_GROUPS.join(', ')})`);
+  }
+  const sinceDate = since === undefined ? undefined : new Date(since);
+  if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+    throw new Error(`--since must be a date like 2026-01-31 (got "${since}")`);
+  }
+
+  const rows = ledger.summarize(groupBy as UsageGroupBy, sinceDate);
+  const now = new Date();
+  const { daily_usd, monthly_usd } = ledger.budget;
+  const budget: string[] = [];
+
+  if (daily_usd !== undefined) {
+    const spent = ledger.spent(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())));
+    budget.push(`Today: $${spent.toFixed(4)} of $${daily_usd.toFixed(2)} daily budget`);
+  }
+  if (monthly_usd !== undefined) {
+    const spent = ledger.spent(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+    budget.push(`This month: $${spent.toFixed(4)} of $${monthly_usd.toFixed(2)} monthly budget`);
+  }
+
+  return {
+    heading: `Usage by ${groupBy}:`,
+    table: rows.length > 0 ? formatUsageTable(rows) : [],
+    budget,
+  };
+}
+
+function groupKey(record: UsageRecord, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case 'day':
+      return record.timestamp.slice(0, 10);
+    case 'model':
+      return record.model;
+    case 'command':
+      return record.command || '(library)';
+    case 'provider':
+      return record.provider;
+  }
+}
+
+function parseBudget(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
@@ -0,0 +1,343 @@
+/**
+ * Backtest Stored Signals against Historical Prices
+ *
+ * Replays every stored signal as a trade and measures what it would have
+ * made over one or more holding periods, so we can tell whether a Gemini
+ * 'buy' or a confident Perplexity 'bullish' is worth acting on.
+ *
+ * Trade rules:
+ * - Direction: the recommendation when there is one (buy = long,
+ *   sell = short, hold = no trade), otherwise the sentiment (bullish =
+ *   long, bearish = short; neutral and conflict are no trade)
+ * - Entry: open of the first candle at or after the signal - never a price
+ *   the signal could not have traded at (skipped when the prices have a gap
+ *   longer than the horizon there, or the open isn't a positive price)
+ * - Exit: open of the first candle at or after entry + horizon; a signal
+ *   without enough later candles is skipped for that horizon, as is one
+ *   where a gap longer than the horizon delays the exit
+ * - Return: direction x (exit / entry - 1), minus the round-trip fee
+ *
+ * Metrics (per horizon, overall and broken down by provider, model,
+ * confidence bucket and risk level):
+ * - Hit rate: share of trades with a positive return
+ * - Average return per trade
+ * - Sharpe: mean / standard deviation of trade returns, annualised as if
+ *   trades of that horizon ran back to back (x sqrt(periods per year)).
+ *   Only non-overlapping trades count - one position at a time, earliest
+ *   entry first - since overlapping trades share a price move and would
+ *   inflate it
+ * - Max drawdown: largest peak-to-trough fall of the cumulative return,
+ *   trades taken one unit each in exit order
+ *
+ * Usage:
+ *   const report = runBacktest(signals, (symbol) => candlesBySymbol[symbol], { horizonsHours: [24, 168] });
+ *   report.horizons[0].overall.hit_rate;
+ */
+
+import { Candle } from '../shared/ohlcv';
+import { Signal } from '../shared/signal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Settings for runBacktest() */
+export interface BacktestOptions {
+  horizonsHours?: number[];        // Holding periods (default: 24, 72, 168)
+  feeBps?: number;                 // Round-trip cost in basis points (default: 0)
+  confidenceBuckets?: number[];    // Upper bounds of the confidence buckets (default: 0.5, 0.7, 0.85)
+}
+
+/** Which side a signal trades */
+export type TradeDirection = 'long' | 'short';
+
+/** One simulated trade */
+export interface Trade {
+  symbol: string;
+  provider: string;
+  model: string;
+  confidence: number;
+  risk_level?: string;
+  direction: TradeDirection;
+  signal_time: string;
+  entry_time: string;
+  entry_price: number;
+  exit_time: string;
+  exit_price: number;
+  return: number;                  // Fraction, after fees (0.021 = +2.1%)
+}
+
+/** Performance of a group of trades */
+export interface TradeStats {
+  trades: number;
+  hit_rate: number;                // 0.0 to 1.0
+  avg_return: number;
+  total_return: number;            // Sum of trade returns
+  sharpe: number;                  // Annualised (0 with fewer than two trades or no variance)
+  sharpe_trades: number;           // Non-overlapping trades the Sharpe ratio is based on
+  max_drawdown: number;            // Positive fraction of cumulative return
+}
+
+/** Results for one holding period */
+export interface HorizonResult {
+  horizon_hours: number;
+  overall: TradeStats;
+  by_provider: Record<string, TradeStats>;
+  by_model: Record<string, TradeStats>;
+  by_confidence: Record<string, TradeStats>;
+  by_risk_level: Record<string, TradeStats>;
+  trades: Trade[];
+  skipped: number;                 // Signals the candles don't cover
+}
+
+/** Everything runBacktest() found */
+export interface BacktestReport {
+  signals: number;                 // Signals considered
+  no_trade: number;                // Neutral, conflict or hold
+  no_prices: string[];             // Symbols with no candles
+  fee_bps: number;
+  horizons: HorizonResult[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_HORIZONS_HOURS = [24, 72, 168];
+const DEFAULT_CONFIDENCE_BUCKETS = [0.5, 0.7, 0.85];
+
+const HOUR_MS = 60 * 60 * 1000;
+const HOURS_PER_YEAR = 365 * 24;
+
+// ============================================================================
+// Backtest
+// ============================================================================
+
+/**
+ * Simulate every signal as a trade and summarise the results
+ *
+ * @param signals - Stored signals, in any order
+ * @param candlesFor - Candles for a symbol, oldest first (undefined or empty when there are none)
+ * @param options - Horizons, fees and confidence buckets
+ * @returns Per-horizon statistics and the trades behind them
+ */
+export function runBacktest(
+  signals: Signal[],
+  candlesFor: (symbol: string) => Candle[] | undefined,
+  options: BacktestOptions = {}
+): BacktestReport {
+  const horizons = options.horizonsHours ?? DEFAULT_HORIZONS_HOURS;
+  if (horizons.length === 0 || horizons.some((h) => !(h > 0))) {
+    throw new Error(`Horizons must be > 0 hours (got ${horizons.join(', ')})`);
+  }
+  const fee = (options.feeBps ?? 0) / 10000;
+  const buckets = [...(options.confidenceBuckets ?? DEFAULT_CONFIDENCE_BUCKETS)].sort((a, b) => a - b);
+
+  const candles = new Map<string, Candle[]>();
+  const noPrices = new Set<string>();
+  const tradable: Array<{ signal: Signal; direction: TradeDirection; candles: Candle[] }> = [];
+  let noTrade = 0;
+
+  for (const signal of signals) {
+    const direction = directionOf(signal);
+    if (!direction) {
+      noTrade++;
+      continue;
+    }
+
+    if (!candles.has(signal.symbol)) {
+      candles.set(signal.symbol, candlesFor(signal.symbol) ?? []);
+    }
+    const series = candles.get(signal.symbol)!;
+    if (series.length === 0) {
+      noPrices.add(signal.symbol);
+      continue;
+    }
+    tradable.push({ signal, direction, candles: series });
+  }
+
+  const results = horizons.map((horizon): HorizonResult => {
+    const trades: Trade[] = [];
+    let skipped = 0;
+
+    for (const { signal, direction, candles: series } of tradable) {
+      const trade = simulate(signal, direction, series, horizon, fee);
+      if (trade) {
+        trades.push(trade);
+      } else {
+        skipped++;
+      }
+    }
+    trades.sort((a, b) => Date.parse(a.exit_time) - Date.parse(b.exit_time));
+
+    return {
+      horizon_hours: horizon,
+      overall: tradeStats(trades, horizon),
+      by_provider: groupStats(trades, horizon, (t) => t.provider),
+      by_model: groupStats(trades, horizon, (t) => t.model),
+      by_confidence: groupStats(trades, horizon, (t) => confidenceBucket(t.confidence, buckets), bucketLabels(buckets)),
+      by_risk_level: groupStats(trades, horizon, (t) => t.risk_level ?? 'none'),
+      trades,
+      skipped,
+    };
+  });
+
+  return {
+    signals: signals.length,
+    no_trade: noTrade,
+    no_prices: [...noPrices].sort(),
+    fee_bps: options.feeBps ?? 0,
+    horizons: results,
+  };
+}
+
+/**
+ * Hit rate, average return, Sharpe and max drawdown of some trades
+ *
+ * @param trades - Trades in exit order
+ * @param horizonHours - Holding period, for annualising the Sharpe ratio
+ */
+export function tradeStats(trades: Trade[], horizonHours: number): TradeStats {
+  const returns = trades.map((t) => t.return);
+  const n = returns.length;
+  if (n === 0) {
+    return { trades: 0, hit_rate: 0, avg_return: 0, total_return: 0, sharpe: 0, sharpe_trades: 0, max_drawdown: 0 };
+  }
+
+  const total = returns.reduce((a, b) => a + b, 0);
+  const sequential = nonOverlapping(trades).map((t) => t.return);
+
+  let equity = 0;
+  let peak = 0;
+  let drawdown = 0;
+  for (const r of returns) {
+    equity += r;
+    peak = Math.max(peak, equity);
+    drawdown = Math.max(drawdown, peak - equity);
+  }
+
+  return {
+    trades: n,
+    hit_rate: round(returns.filter((r) => r > 0).length / n),
+    avg_return: round(total / n),
+    total_return: round(total),
+    sharpe: round(sharpeRatio(sequential, horizonHours)),
+    sharpe_trades: sequential.length,
+    max_drawdown: round(drawdown),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Side a signal trades, or undefined for no trade */
+function directionOf(signal: Signal): TradeDirection | undefined {
+  if (signal.recommendation) {
+    return signal.recommendation === 'buy' ? 'long' : signal.recommendation === 'sell' ? 'short' : undefined;
+  }
+  return signal.sentiment === 'bullish' ? 'long' : signal.sentiment === 'bearish' ? 'short' : undefined;
+}
+
+/** Trade one signal over one horizon, or undefined when the candles don't cover it */
+function simulate(signal: Signal, direction: TradeDirection, candles: Candle[], horizonHours: number, fee: number): Trade | undefined {
+  const signalTime = Date.parse(signal.timestamp);
+  const horizon = horizonHours * HOUR_MS;
+  const entry = firstAtOrAfter(candles, signalTime);
+  if (!entry || entry.time - signalTime > horizon || !(Number.isFinite(entry.open) && entry.open > 0)) {
+    return undefined;
+  }
+  const exit = firstAtOrAfter(candles, entry.time + horizon);
+  if (!exit || exit.time - (entry.time + horizon) > horizon) {
+    return undefined;
+  }
+
+  const move = exit.open / entry.open - 1;
+  return {
+    symbol: signal.symbol,
+    provider: signal.provider,
+    model: signal.model,
+    confidence: signal.confidence,
+    risk_level: signal.risk_level,
+    direction,
+    signal_time: signal.timestamp,
+    entry_time: new Date(entry.time).toISOString(),
+    entry_price: entry.open,
+    exit_time: new Date(exit.time).toISOString(),
+    exit_price: exit.open,
+    return: round((direction === 'long' ? move : -move) - fee, 6),
+  };
+}
+
+/** Trades that could all have been held one after another, earliest entry first */
+function nonOverlapping(trades: Trade[]): Trade[] {
+  const picked: Trade[] = [];
+  let free = -Infinity;
+  for (const trade of [...trades].sort((a, b) => Date.parse(a.entry_time) - Date.parse(b.entry_time))) {
+    if (Date.parse(trade.entry_time) >= free) {
+      picked.push(trade);
+      free = Date.parse(trade.exit_time);
+    }
+  }
+  return picked;
+}
+
+/** Annualised Sharpe ratio of back-to-back returns (0 with fewer than two or no variance) */
+function sharpeRatio(returns: number[], horizonHours: number): number {
+  const n = returns.length;
+  if (n < 2) {
+    return 0;
+  }
+  const mean = returns.reduce((a, b) => a + b, 0) / n;
+  const std = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (n - 1));
+  return std > 0 ? (mean / std) * Math.sqrt(HOURS_PER_YEAR / horizonHours) : 0;
+}
+
+/** First candle opening at or after `time` (binary search - candles are oldest first) */
+function firstAtOrAfter(candles: Candle[], time: number): Candle | undefined {
+  let lo = 0;
+  let hi = candles.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].time < time) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return candles[lo];
+}
+
+/** Stats per group, in `order` when given, otherwise keys sorted */
+function groupStats(trades: Trade[], horizonHours: number, key: (trade: Trade) => string, order?: string[]): Record<string, TradeStats> {
+  const groups = new Map<string, Trade[]>();
+  for (const trade of trades) {
+    const k = key(trade);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(trade);
+  }
+  const keys = order ? order.filter((k) => groups.has(k)) : [...groups.keys()].sort();
+  return Object.fromEntries(keys.map((k) => [k, tradeStats(groups.get(k)!, horizonHours)]));
+}
+
+/** Labels of all confidence buckets, lowest first, e.g. ['<50%', '50-70%', '70-85%', '>=85%'] */
+function bucketLabels(bounds: number[]): string[] {
+  const pct = (value: number) => Math.round(value * 100);
+  return [
+    `<${pct(bounds[0])}%`,
+    ...bounds.slice(1).map((b, i) => `${pct(bounds[i])}-${pct(b)}%`),
+    `>=${pct(bounds[bounds.length - 1])}%`,
+  ];
+}
+
+/** Label of the bucket a confidence falls in */
+function confidenceBucket(confidence: number, bounds: number[]): string {
+  const upper = bounds.findIndex((b) => confidence < b);
+  return bucketLabels(bounds)[upper === -1 ? bounds.length : upper];
+}
+
+/** Round for readable output (trade returns keep 6 decimals) */
+function round(value: number, decimals = 4): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,199 @@
+/**
+ * Consensus Signal from Perplexity and Gemini
+ *
+ * Perplexity (MarketSentiment) and Gemini (SentimentAnalysis) each give a
+ * sentiment with a confidence. This module puts both on one scale and
+ * combines them into a single signal.
+ *
+ * Common scale:
+ * - Each opinion becomes a score in [-1, 1]: bullish = +confidence,
+ *   bearish = -confidence, neutral = 0
+ * - The combined score and confidence are weighted averages (per-provider
+ *   weights, 1:1 by default)
+ * - Agreement is 1 - (spread of the scores / 2): 1 = identical, 0 = fully
+ *   opposed; left unset when fewer than two opinions carry weight
+ * - One bullish and one bearish opinion is a "conflict", whatever the
+ *   weighted score says
+ *
+ * How the opinions are gathered:
+ * 1. Perplexity researches the symbol and gives its structured sentiment
+ * 2. Gemini analyses the same research independently of that sentiment
+ *
+ * Usage:
+ *   const consensus = await runConsensus('BTC', createPerplexityClient(), createGeminiClient());
+ *   if (consensus.signal === 'conflict') { ... }
+ */
+
+import { GeminiClient, SentimentAnalysis } from '../gemini/gemini-client';
+import { MarketSentiment, PerplexityClient } from '../perplexity/perplexity-client';
+import { ApiProvider } from '../shared/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Sentiment shared by both providers */
+export type Sentiment = 'bullish' | 'bearish' | 'neutral';
+
+/** Combined signal - a sentiment, or 'conflict' when the providers disagree outright */
+export type ConsensusSignal = Sentiment | 'conflict';
+
+/** One provider's view on the common scale */
+export interface ProviderOpinion {
+  provider: ApiProvider;
+  sentiment: Sentiment;
+  confidence: number;     // 0.0 to 1.0, as the provider reported it
+  score: number;          // -1 (certain bearish) to +1 (certain bullish)
+  weight: number;         // Share of the combined signal (weights sum to 1)
+}
+
+/** Settings for combining opinions */
+export interface ConsensusOptions {
+  weights?: Partial<Record<ApiProvider, number>>;  // Relative trust per provider (default: 1 each)
+  neutralBand?: number;                            // |score| below this is neutral (default: 0.15)
+}
+
+/** The combined signal with both underlying opinions */
+export interface Consensus {
+  symbol: string;
+  signal: ConsensusSignal;
+  score: number;                  // Weighted score, -1 to +1
+  confidence: number;             // Weighted confidence, 0.0 to 1.0
+  agreement?: number;             // 0.0 (opposed) to 1.0 (identical); unset with one opinion
+  opinions: ProviderOpinion[];    // Opinions that were combined
+  perplexity: MarketSentiment;
+  gemini: SentimentAnalysis;
+  excluded?: string[];            // Opinions left out, and why
+  summary: string;                // One line per opinion, e.g. 'perplexity bullish 80%, gemini bearish 60%'
+  prompt_version: string;         // Version of the combination method (stored with the Signal)
+  timestamp: string;
+}
+
+// ============================================================================
+// Consensus
+// ============================================================================
+
+const DEFAULT_NEUTRAL_BAND = 0.15;
+
+/** Bump when the way opinions are gathered or combined changes */
+const CONSENSUS_VERSION = 'consensus/1';
+
+/**
+ * Ask both providers about a symbol and combine their sentiment
+ *
+ * Perplexity's research and sentiment calls run in parallel; Gemini then
+ * analyses the research (with its citations). A Perplexity sentiment that
+ * failed validation is left out rather than counted as neutral.
+ *
+ * @param symbol - Crypto symbol (e.g. 'BTC')
+ * @param perplexity - Client for research and sentiment
+ * @param gemini - Client for the independent analysis
+ * @param options - Provider weights and neutral band
+ * @returns Combined signal with both opinions
+ * @throws ApiError subclass, UnusableResponseError or SchemaValidationError from either call
+ */
+export async function runConsensus(
+  symbol: string,
+  perplexity: PerplexityClient,
+  gemini: GeminiClient,
+  options: ConsensusOptions = {}
+): Promise<Consensus> {
+  const [research, sentiment] = await Promise.all([
+    perplexity.researchCrypto(symbol),
+    perplexity.getMarketSentiment(symbol),
+  ]);
+  const analysis = await gemini.analyzeResearch(symbol, research.answer, { citations: research.citations });
+
+  const excluded: string[] = [];
+  const opinions: Array<{ provider: ApiProvider; sentiment: Sentiment; confidence: number }> = [
+    { provider: 'gemini', sentiment: analysis.sentiment, confidence: analysis.confidence },
+  ];
+
+  if (sentiment.parse_status === 'invalid') {
+    excluded.push(`perplexity: sentiment failed validation (${(sentiment.validation_errors || []).join('; ')})`);
+  } else {
+    opinions.unshift({ provider: 'perplexity', sentiment: sentiment.sentiment, confidence: sentiment.confidence });
+  }
+
+  const combined = combineOpinions(opinions, options);
+  return {
+    symbol,
+    ...combined,
+    perplexity: sentiment,
+    gemini: analysis,
+    excluded: excluded.length > 0 ? excluded : undefined,
+    summary: combined.opinions.map((o) => `${o.provider} ${o.sentiment} ${Math.round(o.confidence * 100)}%`).join(', '),
+    prompt_version: CONSENSUS_VERSION,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Combine provider opinions into one signal
+ *
+ * Pure function - usable on stored signals as well as fresh ones.
+ *
+ * @param opinions - Sentiment and confidence per provider (at least one)
+ * @param options - Provider weights and neutral band
+ * @returns Signal, weighted score and confidence, agreement and the scored opinions
+ * @throws Error if there are no opinions or every weight is 0
+ */
+export function combineOpinions(
+  opinions: Array<{ provider: ApiProvider; sentiment: Sentiment; confidence: number }>,
+  options: ConsensusOptions = {}
+): Pick<Consensus, 'signal' | 'score' | 'confidence' | 'agreement' | 'opinions'> {
+  const rawWeights = opinions.map((o) => Math.max(0, options.weights?.[o.provider] ?? 1));
+  const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+  if (opinions.length === 0 || totalWeight === 0) {
+    throw new Error('No weighted opinions to combine');
+  }
+
+  const scored: ProviderOpinion[] = opinions.map((o, i) => ({
+    provider: o.provider,
+    sentiment: o.sentiment,
+    confidence: o.confidence,
+    score: directionOf(o.sentiment) * o.confidence,
+    weight: rawWeights[i] / totalWeight,
+  }));
+
+  const score = scored.reduce((sum, o) => sum + o.score * o.weight, 0);
+  const confidence = scored.reduce((sum, o) => sum + o.confidence * o.weight, 0);
+  // A lone opinion can't agree or disagree with anything
+  const scores = scored.filter((o) => o.weight > 0).map((o) => o.score);
+  const agreement = scores.length > 1 ? 1 - (Math.max(...scores) - Math.min(...scores)) / 2 : undefined;
+
+  const sentiments = new Set(scored.filter((o) => o.weight > 0).map((o) => o.sentiment));
+  const neutralBand = options.neutralBand ?? DEFAULT_NEUTRAL_BAND;
+  let signal: ConsensusSignal;
+  if (sentiments.has('bullish') && sentiments.has('bearish')) {
+    signal = 'conflict';
+  } else if (score >= neutralBand) {
+    signal = 'bullish';
+  } else if (score <= -neutralBand) {
+    signal = 'bearish';
+  } else {
+    signal = 'neutral';
+  }
+
+  return {
+    signal,
+    score: round(score),
+    confidence: round(confidence),
+    agreement: agreement === undefined ? undefined : round(agreement),
+    opinions: scored.map((o) => ({ ...o, score: round(o.score), weight: round(o.weight) })),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** +1 for bullish, -1 for bearish, 0 for neutral */
+function directionOf(sentiment: Sentiment): number {
+  return sentiment === 'bullish' ? 1 : sentiment === 'bearish' ? -1 : 0;
+}
+
+/** Round to 3 decimals so output and stored signals stay readable */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
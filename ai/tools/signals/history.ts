@@ -0,0 +1,271 @@
+/**
+ * Signal History - timelines, sentiment flips and a time-decayed composite
+ *
+ * Looks back over stored signals for one symbol (see SignalStore.query) and
+ * answers: what did each provider say over time, when did it change its
+ * mind, is it getting more or less sure, and what do the signals add up to
+ * right now?
+ *
+ * - Flip: a bullish signal followed by a bearish one (or the reverse).
+ *   Neutral and conflict signals in between don't count as a flip or reset
+ *   one - bullish, neutral, bearish is still a flip.
+ * - Confidence drift: least-squares slope of confidence over time, per day
+ * - Composite: average score weighted by age, each signal's weight halving
+ *   every half-life. It is rolling - every point carries the composite as
+ *   of that moment. Its weight is the effective number of full-weight
+ *   signals behind it, so a composite built on one stale signal is easy to
+ *   tell apart from one built on many fresh ones.
+ *
+ * The overall composite uses the providers' own signals; consensus signals
+ * are left out because they repeat those opinions (they are only used when
+ * nothing else is there).
+ *
+ * Usage:
+ *   const { signals } = new SignalStore().query({ symbol: 'BTC' });
+ *   const history = signalHistory('BTC', signals, { halfLifeHours: 12 });
+ *   if (history.flips.some((f) => f.provider === 'gemini')) { ... }
+ *   const now = decayedComposite(signals, new Date());
+ */
+
+import { Signal, SignalProvider, SignalSentiment, SIGNAL_PROVIDERS } from '../shared/signal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Settings for signalHistory() */
+export interface HistoryOptions {
+  halfLifeHours?: number;          // Age at which a signal counts half in the composite (default: 24)
+  at?: Date;                       // Moment for the current composite (default: now)
+}
+
+/** A change of direction between two directional signals */
+export interface SentimentFlip {
+  provider: SignalProvider;
+  from: 'bullish' | 'bearish';
+  to: 'bullish' | 'bearish';
+  timestamp: string;               // Signal that flipped
+  previous: string;                // Last signal in the old direction
+}
+
+/** Composite score at one moment */
+export interface CompositePoint {
+  timestamp: string;
+  score: number;                   // Time-decayed average score, -1 to +1
+  weight: number;                  // Effective number of full-weight signals behind it
+}
+
+/** One signal on a provider's timeline */
+export interface TimelinePoint {
+  timestamp: string;
+  sentiment: SignalSentiment;
+  confidence: number;
+  score: number;
+  composite: number;               // Provider's composite as of this signal
+  flip?: SentimentFlip;            // Set when this signal reversed the direction
+}
+
+/** How a provider's confidence moved */
+export interface ConfidenceDrift {
+  first: number;
+  last: number;
+  change: number;                  // last - first
+  per_day: number;                 // Least-squares slope (0 when all signals share a timestamp)
+}
+
+/** One provider's history */
+export interface ProviderHistory {
+  provider: SignalProvider;
+  points: TimelinePoint[];         // Oldest first
+  flips: SentimentFlip[];
+  drift: ConfidenceDrift;
+  composite: CompositePoint;       // As of options.at
+}
+
+/** Everything signalHistory() found for a symbol */
+export interface SignalHistory {
+  symbol: string;
+  half_life_hours: number;
+  from?: string;                   // First signal (undefined when there are none)
+  to?: string;                     // Last signal
+  providers: ProviderHistory[];    // Providers with at least one signal
+  flips: SentimentFlip[];          // All flips, oldest first
+  composite: CompositePoint;       // Overall, as of options.at
+  timeline: CompositePoint[];      // Overall composite after each signal
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_HALF_LIFE_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * Build timelines, flips, drift and composites for one symbol
+ *
+ * @param symbol - Symbol to look at (other symbols in `signals` are ignored)
+ * @param signals - Stored signals, in any order
+ * @param options - Half-life and the moment for the current composite
+ * @returns The history (empty timelines when there are no signals)
+ */
+export function signalHistory(symbol: string, signals: Signal[], options: HistoryOptions = {}): SignalHistory {
+  const halfLifeHours = options.halfLifeHours ?? DEFAULT_HALF_LIFE_HOURS;
+  if (!(halfLifeHours > 0)) {
+    throw new Error(`Half-life must be > 0 hours (got ${halfLifeHours})`);
+  }
+  const at = options.at ?? new Date();
+
+  const wanted = symbol.toUpperCase();
+  const sorted = signals
+    .filter((s) => s.symbol.toUpperCase() === wanted)
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+  const providers = SIGNAL_PROVIDERS
+    .map((provider) => providerHistory(provider, sorted.filter((s) => s.provider === provider), halfLifeHours, at))
+    .filter((p): p is ProviderHistory => p !== undefined);
+
+  const own = sorted.filter((s) => s.provider !== 'consensus');
+  const combined = own.length > 0 ? own : sorted;
+
+  return {
+    symbol: wanted,
+    half_life_hours: halfLifeHours,
+    from: sorted[0]?.timestamp,
+    to: sorted[sorted.length - 1]?.timestamp,
+    providers,
+    flips: providers.flatMap((p) => p.flips).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+    composite: decayedComposite(combined, at, halfLifeHours),
+    timeline: rollingComposite(combined, halfLifeHours),
+  };
+}
+
+/**
+ * Time-decayed composite score as of a moment
+ *
+ * Signals after `at` are ignored. A signal `age` hours old counts
+ * 0.5^(age / halfLifeHours).
+ *
+ * @returns Score 0 and weight 0 when no signal is at or before `at`
+ */
+export function decayedComposite(signals: Signal[], at: Date = new Date(), halfLifeHours = DEFAULT_HALF_LIFE_HOURS): CompositePoint {
+  let total = 0;
+  let weight = 0;
+
+  for (const signal of signals) {
+    const age = at.getTime() - Date.parse(signal.timestamp);
+    if (age < 0) continue;
+    const w = decay(age, halfLifeHours);
+    total += signal.score * w;
+    weight += w;
+  }
+
+  return { timestamp: at.toISOString(), score: weight > 0 ? round(total / weight) : 0, weight: round(weight) };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** One provider's timeline, flips, drift and composite (undefined when it has no signals) */
+function providerHistory(provider: SignalProvider, signals: Signal[], halfLifeHours: number, at: Date): ProviderHistory | undefined {
+  if (signals.length === 0) {
+    return undefined;
+  }
+
+  const composites = rollingComposite(signals, halfLifeHours);
+  const flips: SentimentFlip[] = [];
+  let direction: { sentiment: 'bullish' | 'bearish'; timestamp: string } | undefined;
+
+  const points = signals.map((signal, i): TimelinePoint => {
+    const point: TimelinePoint = {
+      timestamp: signal.timestamp,
+      sentiment: signal.sentiment,
+      confidence: signal.confidence,
+      score: signal.score,
+      composite: composites[i].score,
+    };
+
+    if (signal.sentiment === 'bullish' || signal.sentiment === 'bearish') {
+      if (direction && direction.sentiment !== signal.sentiment) {
+        point.flip = { provider, from: direction.sentiment, to: signal.sentiment, timestamp: signal.timestamp, previous: direction.timestamp };
+        flips.push(point.flip);
+      }
+      direction = { sentiment: signal.sentiment, timestamp: signal.timestamp };
+    }
+    return point;
+  });
+
+  return {
+    provider,
+    points,
+    flips,
+    drift: confidenceDrift(signals),
+    composite: decayedComposite(signals, at, halfLifeHours),
+  };
+}
+
+/**
+ * Composite after each signal (signals must be oldest first)
+ * Decays the running sums between signals instead of re-summing, so it's linear.
+ */
+function rollingComposite(signals: Signal[], halfLifeHours: number): CompositePoint[] {
+  let total = 0;
+  let weight = 0;
+  let last: number | undefined;
+
+  return signals.map((signal) => {
+    const time = Date.parse(signal.timestamp);
+    if (last !== undefined) {
+      const w = decay(time - last, halfLifeHours);
+      total *= w;
+      weight *= w;
+    }
+    total += signal.score;
+    weight += 1;
+    last = time;
+    return { timestamp: signal.timestamp, score: round(total / weight), weight: round(weight) };
+  });
+}
+
+/** Least-squares slope of confidence per day, plus first and last values */
+function confidenceDrift(signals: Signal[]): ConfidenceDrift {
+  const first = signals[0].confidence;
+  const last = signals[signals.length - 1].confidence;
+  const start = Date.parse(signals[0].timestamp);
+
+  const xs = signals.map((s) => (Date.parse(s.timestamp) - start) / DAY_MS);
+  const ys = signals.map((s) => s.confidence);
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) ** 2;
+  });
+
+  return {
+    first,
+    last,
+    change: round(last - first),
+    per_day: variance > 0 ? round(covariance / variance) : 0,
+  };
+}
+
+/** Weight of a signal `ageMs` old */
+function decay(ageMs: number, halfLifeHours: number): number {
+  return Math.pow(0.5, ageMs / (halfLifeHours * HOUR_MS));
+}
+
+/** Round to 3 decimals so output stays readable */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
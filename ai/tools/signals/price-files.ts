@@ -0,0 +1,38 @@
+/**
+ * Price Files for the Backtest, CSV or Parquet
+ *
+ * Parquet exports (e.g. from pandas or duckdb) are read with hyparquet and
+ * turned into candles by shared/ohlcv.ts, with the same column rules as
+ * CSV. The reading lives here rather than in ohlcv.ts because shared
+ * modules have no package dependencies.
+ *
+ * Usage:
+ *   const file = findPriceFile('data/prices', 'BTC');
+ *   const candles = file ? await loadPriceFile(file) : [];
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parquetReadObjects } from 'hyparquet';
+import { Candle, candlesFromRecords, loadCandles, PriceDataError } from '../shared/ohlcv';
+
+/**
+ * Read candles from a CSV or Parquet file
+ *
+ * @returns Candles, oldest first
+ * @throws PriceDataError if the file can't be decoded or its rows aren't candles
+ */
+export async function loadPriceFile(file: string): Promise<Candle[]> {
+  if (extname(file).toLowerCase() !== '.parquet') {
+    return loadCandles(file);
+  }
+
+  const bytes = readFileSync(file);
+  let records: Array<Record<string, unknown>>;
+  try {
+    records = await parquetReadObjects({ file: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) });
+  } catch (error) {
+    throw new PriceDataError(file, `not a readable Parquet file (${error instanceof Error ? error.message : String(error)})`);
+  }
+  return candlesFromRecords(file, records);
+}
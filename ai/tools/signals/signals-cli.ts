@@ -0,0 +1,633 @@
+#!/usr/bin/env node
+
+/**
+ * Signals CLI - Combine and inspect trading signals from the AI tools
+ *
+ * Usage:
+ *   ./signals consensus BTC               - Perplexity and Gemini side by side, plus the combined signal
+ *   ./signals consensus ETH --gemini-weight 2 - Trust Gemini twice as much as Perplexity
+ *   ./signals consensus SOL --json        - Print the consensus as JSON
+ *   ./signals query --symbol BTC --since 2026-01-01 - Stored signals for BTC
+ *   ./signals query --source gemini -f btc.jsonl    - Gemini signals in a -o file
+ *   ./signals history BTC                 - Timeline per provider, flips and the decayed composite
+ *   ./signals history ETH --half-life 6 --since 2026-01-01 - Weigh recent signals more
+ *   ./signals backtest --prices data/prices - Replay stored signals against CSV or Parquet candles
+ *   ./signals backtest --signals btc.jsonl --prices data/prices --horizons 4,24 --fee-bps 10
+ *   ./signals migrate old-signals.json    - Upgrade a signal file to the current schema
+ *   ./signals migrate .ai-tools/signals.jsonl --dry-run - Only report what would change
+ *
+ * Signals are read from and recorded in .ai-tools/signals.jsonl unless
+ * a file is given.
+ */
+
+import { Command } from "commander";
+import chalk from "chalk";
+import { BacktestReport, HorizonResult, runBacktest, TradeStats } from "./backtest";
+import { runConsensus, Consensus, ConsensusSignal } from "./consensus";
+import { CompositePoint, ProviderHistory, signalHistory, SignalHistory } from "./history";
+import { loadPriceFile } from "./price-files";
+import { createGeminiClient, UnusableResponseError } from "../gemini/gemini-client";
+import { createPerplexityClient } from "../perplexity/perplexity-client";
+import { apiKeyEnvVar } from "../shared/credentials";
+import { ApiError, AuthError, BudgetExceededError, NetworkError, providerLabel, RateLimitError, ServerError } from "../shared/errors";
+import { Candle, findPriceFile, PriceDataError } from "../shared/ohlcv";
+import { redactSecrets } from "../shared/redact";
+import { ResponseCache } from "../shared/response-cache";
+import { SchemaValidationError } from "../shared/schema";
+import { Signal, SIGNAL_PROVIDERS, SignalProvider, toSignal } from "../shared/signal";
+import { CorruptLine, CorruptSignalFileError, MigrationReport, recordSignals, SignalStore, SignalStoreLockError } from "../shared/signal-store";
+import { UsageLedger } from "../shared/usage-ledger";
+
+const program = new Command();
+
+program
+  .name("signals")
+  .description("Combine and inspect trading signals from Perplexity and Gemini")
+  .version("1.0.0");
+
+program
+  .command("consensus <symbol>")
+  .description("Ask Perplexity and Gemini for sentiment and combine them into one signal")
+  .option("--perplexity-weight <n>", "Relative weight of Perplexity's opinion", "1")
+  .option("--gemini-weight <n>", "Relative weight of Gemini's opinion", "1")
+  .option("--neutral-band <n>", "Combined scores closer to 0 than this are neutral", "0.15")
+  .option("--no-cache", "Don't read or write the Perplexity research cache")
+  .option("--refresh", "Ignore cached research and fetch new research")
+  .option("--json", "Print the consensus as JSON instead of a table")
+  .option("-o, --output <file>", "Also append the consensus to this JSONL file")
+  .action(async (symbolArg: string, options: {
+    perplexityWeight: string;
+    geminiWeight: string;
+    neutralBand: string;
+    cache: boolean;
+    refresh?: boolean;
+    json?: boolean;
+    output?: string;
+  }) => {
+    try {
+      const symbol = symbolArg.toUpperCase();
+      const weights = {
+        perplexity: parseNonNegative(options.perplexityWeight, "--perplexity-weight"),
+        gemini: parseNonNegative(options.geminiWeight, "--gemini-weight"),
+      };
+      const neutralBand = parseNonNegative(options.neutralBand, "--neutral-band");
+
+      const ledger = new UsageLedger({ command: "signals consensus" });
+      const perplexity = createPerplexityClient(undefined, {
+        cache: options.cache ? new ResponseCache("perplexity") : undefined,
+        refreshCache: options.refresh,
+        ledger,
+      });
+      const gemini = createGeminiClient(undefined, { ledger });
+
+      if (!options.json) {
+        console.log(chalk.dim(`Asking Perplexity and Gemini about ${symbol}...`));
+      }
+
+      const consensus = await runConsensus(symbol, perplexity, gemini, { weights, neutralBand });
+
+      if (options.json) {
+        console.log(JSON.stringify(consensus, null, 2));
+      } else {
+        printConsensus(consensus);
+      }
+
+      recordSignals([toSignal(consensus, "consensus")], {
+        output: options.output,
+        onStoreError: (error) => console.warn(chalk.yellow(`⚠ Not recorded in the signal store: ${error.message}`)),
+      });
+      if (options.output && !options.json) {
+        console.log(chalk.green(`\n✓ Saved to ${options.output}`));
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("query")
+  .description("List stored signals, oldest first")
+  .option("--symbol <symbol>", "Only this symbol")
+  .option("--source <provider>", `Only signals from ${SIGNAL_PROVIDERS.join(", ")}`)
+  .option("--since <date>", "Only signals on or after this date (YYYY-MM-DD or ISO time)")
+  .option("--until <date>", "Only signals on or before this date (YYYY-MM-DD or ISO time)")
+  .option("-n, --limit <n>", "Only the newest n matches")
+  .option("-f, --file <file>", "Signal file to read (default: .ai-tools/signals.jsonl)")
+  .option("--json", "Print matching signals as JSON lines")
+  .action((options: {
+    symbol?: string;
+    source?: string;
+    since?: string;
+    until?: string;
+    limit?: string;
+    file?: string;
+    json?: boolean;
+  }) => {
+    try {
+      if (options.source && !SIGNAL_PROVIDERS.includes(options.source as SignalProvider)) {
+        throw new Error(`Unknown --source "${options.source}" (use ${SIGNAL_PROVIDERS.join(", ")})`);
+      }
+
+      const store = new SignalStore(options.file);
+      const { signals, corrupt } = store.query({
+        symbol: options.symbol,
+        provider: options.source as SignalProvider | undefined,
+        since: options.since ? parseDate(options.since, "--since") : undefined,
+        until: options.until ? parseDate(options.until, "--until", true) : undefined,
+      });
+      const limit = options.limit ? parseNonNegative(options.limit, "--limit") : signals.length;
+      const shown = signals.slice(Math.max(0, signals.length - limit));
+
+      if (options.json) {
+        shown.forEach((signal) => console.log(JSON.stringify(signal)));
+      } else if (shown.length === 0) {
+        console.log(chalk.yellow(`No matching signals in ${store.file}`));
+      } else {
+        printSignalTable(shown);
+        console.log(chalk.dim(`\n${shown.length} of ${signals.length} matching signal${signals.length === 1 ? "" : "s"} from ${store.file}`));
+      }
+
+      warnCorrupt(store.file, corrupt);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("history <symbol>")
+  .description("Show each provider's sentiment timeline, flips, confidence drift and the time-decayed composite")
+  .option("--source <provider>", `Only signals from ${SIGNAL_PROVIDERS.join(", ")}`)
+  .option("--since <date>", "Only signals on or after this date (YYYY-MM-DD or ISO time)")
+  .option("--until <date>", "Only signals on or before this date (YYYY-MM-DD or ISO time)")
+  .option("--half-life <hours>", "Age at which a signal counts half in the composite", "24")
+  .option("-n, --limit <n>", "Rows per provider in the table (0 for sparklines only)", "10")
+  .option("-f, --file <file>", "Signal file to read (default: .ai-tools/signals.jsonl)")
+  .option("--json", "Print the history as JSON")
+  .action((symbolArg: string, options: {
+    source?: string;
+    since?: string;
+    until?: string;
+    halfLife: string;
+    limit: string;
+    file?: string;
+    json?: boolean;
+  }) => {
+    try {
+      if (options.source && !SIGNAL_PROVIDERS.includes(options.source as SignalProvider)) {
+        throw new Error(`Unknown --source "${options.source}" (use ${SIGNAL_PROVIDERS.join(", ")})`);
+      }
+      const halfLifeHours = parseNonNegative(options.halfLife, "--half-life");
+      if (halfLifeHours === 0) {
+        throw new Error("--half-life must be more than 0 hours");
+      }
+      const limit = parseNonNegative(options.limit, "--limit");
+      const until = options.until ? parseDate(options.until, "--until", true) : undefined;
+
+      const store = new SignalStore(options.file);
+      const { signals, corrupt } = store.query({
+        symbol: symbolArg,
+        provider: options.source as SignalProvider | undefined,
+        since: options.since ? parseDate(options.since, "--since") : undefined,
+        until,
+      });
+      // With --until, the composite is as of that moment rather than now
+      const history = signalHistory(symbolArg, signals, { halfLifeHours, at: until && until < new Date() ? until : undefined });
+
+      if (options.json) {
+        console.log(JSON.stringify(history, null, 2));
+      } else if (history.providers.length === 0) {
+        console.log(chalk.yellow(`No ${history.symbol} signals in ${store.file}`));
+      } else {
+        printHistory(history, limit);
+      }
+
+      warnCorrupt(store.file, corrupt);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("backtest")
+  .description("Replay stored signals as trades against historical candles and report how they did")
+  .requiredOption("--prices <dir>", "Directory of OHLCV CSV or Parquet files, one per symbol (BTC.csv, ETHUSDT.parquet ...)")
+  .option("--signals <file>", "Signal file to test (default: .ai-tools/signals.jsonl)")
+  .option("--horizons <hours>", "Comma-separated holding periods in hours", "24,72,168")
+  .option("--fee-bps <n>", "Round-trip trading cost in basis points", "0")
+  .option("--symbol <symbol>", "Only this symbol")
+  .option("--source <provider>", `Only signals from ${SIGNAL_PROVIDERS.join(", ")}`)
+  .option("--since <date>", "Only signals on or after this date (YYYY-MM-DD or ISO time)")
+  .option("--until <date>", "Only signals on or before this date (YYYY-MM-DD or ISO time)")
+  .option("--json", "Print the report, including every trade, as JSON")
+  .action(async (options: {
+    prices: string;
+    signals?: string;
+    horizons: string;
+    feeBps: string;
+    symbol?: string;
+    source?: string;
+    since?: string;
+    until?: string;
+    json?: boolean;
+  }) => {
+    try {
+      if (options.source && !SIGNAL_PROVIDERS.includes(options.source as SignalProvider)) {
+        throw new Error(`Unknown --source "${options.source}" (use ${SIGNAL_PROVIDERS.join(", ")})`);
+      }
+      const horizonsHours = options.horizons.split(",").map((h) => parseNonNegative(h.trim(), "--horizons"));
+      const feeBps = parseNonNegative(options.feeBps, "--fee-bps");
+
+      const store = new SignalStore(options.signals);
+      const { signals, corrupt } = store.query({
+        symbol: options.symbol,
+        provider: options.source as SignalProvider | undefined,
+        since: options.since ? parseDate(options.since, "--since") : undefined,
+        until: options.until ? parseDate(options.until, "--until", true) : undefined,
+      });
+
+      // Parquet reads are async, so load every symbol's candles up front
+      const candles = new Map<string, Candle[]>();
+      for (const symbol of new Set(signals.map((s) => s.symbol))) {
+        const file = findPriceFile(options.prices, symbol);
+        if (file) {
+          candles.set(symbol, await loadPriceFile(file));
+        }
+      }
+      const report = runBacktest(signals, (symbol) => candles.get(symbol), { horizonsHours, feeBps });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else if (signals.length === 0) {
+        console.log(chalk.yellow(`No matching signals in ${store.file}`));
+      } else {
+        printBacktest(report, store.file);
+      }
+
+      warnCorrupt(store.file, corrupt);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command("migrate <file>")
+  .description("Upgrade a signal file (legacy JSON array or JSONL) to the current Signal schema")
+  .option("-o, --output <file>", "Write the upgraded signals here instead of replacing the file")
+  .option("--dry-run", "Only report what would be upgraded or rejected")
+  .action((file: string, options: { output?: string; dryRun?: boolean }) => {
+    try {
+      const report = new SignalStore(file).migrate({ output: options.output, dryRun: options.dryRun });
+      printMigration(report);
+
+      // Rejected records are kept aside, not lost, but the run still needs attention
+      if (report.rejected.length > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Print the combined signal, then both opinions side by side
+ */
+function printConsensus(consensus: Consensus) {
+  const { perplexity, gemini } = consensus;
+  const opinion = (provider: string) => consensus.opinions.find((o) => o.provider === provider);
+  const p = opinion("perplexity");
+  const g = opinion("gemini");
+
+  console.log(chalk.bold(`\n${consensus.symbol} Consensus: `) + getSignalColor(consensus.signal)(consensus.signal.toUpperCase()));
+  console.log(`  Score: ${formatScore(consensus.score)}   Confidence: ${percent(consensus.confidence)}   Agreement: ${consensus.agreement === undefined ? chalk.dim("n/a (one opinion)") : percent(consensus.agreement)}`);
+  if (consensus.signal === "conflict") {
+    console.log(chalk.yellow("  Perplexity and Gemini point in opposite directions - treat as no trade"));
+  }
+
+  console.log();
+  printRow("", chalk.bold("Perplexity"), chalk.bold("Gemini"));
+  printRow("Sentiment", colorSentiment(p?.sentiment), colorSentiment(g?.sentiment));
+  printRow("Confidence", p ? percent(p.confidence) : "-", g ? percent(g.confidence) : "-");
+  printRow("Score", p ? formatScore(p.score) : "-", g ? formatScore(g.score) : "-");
+  printRow("Weight", p ? percent(p.weight) : "-", g ? percent(g.weight) : "-");
+  printRow("Recommendation", "-", gemini.recommendation.toUpperCase());
+  printRow("Risk", "-", gemini.risk_level.toUpperCase());
+  printRow("Source quality", String(perplexity.source_quality.score), "-");
+
+  consensus.excluded?.forEach((reason) => console.log(chalk.yellow(`\n  Left out - ${reason}`)));
+
+  if (p) {
+    console.log(chalk.bold("\nPerplexity:"));
+    console.log(`  ${perplexity.summary}`);
+    perplexity.key_factors.forEach((f, i) => console.log(`  ${i + 1}. ${f}`));
+  }
+
+  console.log(chalk.bold("\nGemini:"));
+  console.log(`  ${gemini.reasoning}`);
+  gemini.key_points.forEach((point, i) => console.log(`  ${i + 1}. ${point}`));
+}
+
+/**
+ * Print stored signals as a table: time, source, symbol, sentiment, confidence, summary
+ */
+function printSignalTable(signals: Signal[]) {
+  console.log(chalk.dim(`  ${"TIME".padEnd(17)}${"SOURCE".padEnd(11)}${"SYMBOL".padEnd(8)}${"SIGNAL".padEnd(10)}${"CONF".padStart(5)}${"SCORE".padStart(7)}  SUMMARY`));
+
+  for (const signal of signals) {
+    console.log(
+      `  ${signal.timestamp.slice(0, 16).replace("T", " ").padEnd(17)}${signal.provider.padEnd(11)}${signal.symbol.padEnd(8)}` +
+        `${getSignalColor(signal.sentiment)(signal.sentiment.toUpperCase().padEnd(10))}${percent(signal.confidence).padStart(5)}` +
+        `${formatScore(signal.score).padStart(7)}  ${truncate(signal.summary, 60)}`
+    );
+  }
+}
+
+/**
+ * Print each provider's sparkline, drift and recent signals, then the overall composite
+ */
+function printHistory(history: SignalHistory, limit: number) {
+  console.log(chalk.bold(`\n${history.symbol} Signal History`) + chalk.dim(`  ${formatTime(history.from!)} → ${formatTime(history.to!)}`));
+
+  for (const provider of history.providers) {
+    printProviderHistory(provider, limit);
+  }
+
+  console.log(chalk.bold(`\nComposite (half-life ${history.half_life_hours}h): `) + formatComposite(history.composite));
+  console.log(`  ${sparkline(history.timeline.map((p) => p.score))}`);
+  if (history.flips.length > 0) {
+    const last = history.flips[history.flips.length - 1];
+    console.log(chalk.magenta(`  ${history.flips.length} flip${history.flips.length === 1 ? "" : "s"}, last: ${last.provider} ${last.from} → ${last.to} at ${formatTime(last.timestamp)}`));
+  }
+}
+
+/**
+ * Print one provider: summary line with sparkline, then its newest signals
+ */
+function printProviderHistory(provider: ProviderHistory, limit: number) {
+  const { points, drift } = provider;
+  const driftText = `${formatPoints(drift.change)} (${formatPoints(drift.per_day)}/day)`;
+
+  console.log(chalk.bold(`\n${provider.provider}`) + chalk.dim(`  ${points.length} signal${points.length === 1 ? "" : "s"}`));
+  console.log(`  ${sparkline(points.map((p) => p.score))}`);
+  console.log(`  Composite: ${formatComposite(provider.composite)}   Flips: ${provider.flips.length}   Confidence: ${percent(drift.first)} → ${percent(drift.last)}, ${driftText}`);
+
+  if (limit === 0) return;
+
+  const shown = points.slice(Math.max(0, points.length - limit));
+  console.log(chalk.dim(`\n    ${"TIME".padEnd(17)}${"SIGNAL".padEnd(10)}${"CONF".padStart(5)}${"SCORE".padStart(7)}${"COMP".padStart(7)}`));
+  for (const point of shown) {
+    const flip = point.flip ? chalk.magenta(`  ⇅ flip from ${point.flip.from}`) : "";
+    console.log(
+      `    ${formatTime(point.timestamp).padEnd(17)}${getSignalColor(point.sentiment)(point.sentiment.toUpperCase().padEnd(10))}` +
+        `${percent(point.confidence).padStart(5)}${formatScore(point.score).padStart(7)}${formatScore(point.composite).padStart(7)}${flip}`
+    );
+  }
+  if (shown.length < points.length) {
+    console.log(chalk.dim(`    ... ${points.length - shown.length} older (use -n)`));
+  }
+}
+
+/** Change in a 0-1 value as signed percentage points, e.g. "-12pp" */
+function formatPoints(change: number): string {
+  const points = Math.round(change * 100);
+  return `${points >= 0 ? "+" : ""}${points}pp`;
+}
+
+/** Composite score, coloured by direction, with how much signal is behind it */
+function formatComposite(composite: CompositePoint): string {
+  const color = composite.score > 0 ? chalk.green : composite.score < 0 ? chalk.red : chalk.yellow;
+  return color(formatScore(composite.score)) + chalk.dim(` (weight ${composite.weight.toFixed(2)})`);
+}
+
+/**
+ * Scores (-1 to +1) as a coloured block sparkline, oldest first
+ * The newest 60 are shown so it fits on one line.
+ */
+function sparkline(scores: number[]): string {
+  const blocks = "▁▂▃▄▅▆▇█";
+  return scores
+    .slice(-60)
+    .map((score) => {
+      const block = blocks[Math.min(blocks.length - 1, Math.floor(((score + 1) / 2) * blocks.length))];
+      return score > 0 ? chalk.green(block) : score < 0 ? chalk.red(block) : chalk.yellow(block);
+    })
+    .join("");
+}
+
+/** ISO timestamp as "YYYY-MM-DD HH:MM" (UTC) */
+function formatTime(timestamp: string): string {
+  return timestamp.slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Print a summary of the run, then one table per horizon
+ */
+function printBacktest(report: BacktestReport, file: string) {
+  console.log(chalk.bold(`\nBacktest of ${report.signals} signal${report.signals === 1 ? "" : "s"} from ${file}`));
+  console.log(chalk.dim(`  ${report.no_trade} without a trade (neutral, conflict or hold), fees ${report.fee_bps} bps round trip`));
+  if (report.no_prices.length > 0) {
+    console.log(chalk.yellow(`  No prices for ${report.no_prices.join(", ")} - their signals were left out`));
+  }
+
+  for (const horizon of report.horizons) {
+    printHorizon(horizon);
+  }
+}
+
+/**
+ * Print one horizon: overall, then the breakdowns
+ */
+function printHorizon(result: HorizonResult) {
+  console.log(chalk.bold(`\n${result.horizon_hours}h horizon`) + chalk.dim(`  ${result.overall.trades} trades (${result.overall.sharpe_trades} non-overlapping for Sharpe), ${result.skipped} not covered by the prices`));
+  if (result.overall.trades === 0) {
+    return;
+  }
+
+  console.log(chalk.dim(`  ${"".padEnd(26)}${"TRADES".padStart(7)}${"HIT".padStart(7)}${"AVG".padStart(9)}${"TOTAL".padStart(9)}${"SHARPE".padStart(8)}${"MAX DD".padStart(9)}`));
+  printStatsRow("Overall", result.overall, chalk.bold);
+
+  const sections: Array<[string, Record<string, TradeStats>]> = [
+    ["Provider", result.by_provider],
+    ["Model", result.by_model],
+    ["Confidence", result.by_confidence],
+    ["Risk level", result.by_risk_level],
+  ];
+  for (const [title, groups] of sections) {
+    console.log(chalk.dim(`  ${title}`));
+    for (const [name, stats] of Object.entries(groups)) {
+      printStatsRow(`  ${name}`, stats);
+    }
+  }
+}
+
+/** One row of a backtest table */
+function printStatsRow(label: string, stats: TradeStats, style: (text: string) => string = (text) => text) {
+  const returnColor = (value: number) => (value > 0 ? chalk.green : value < 0 ? chalk.red : chalk.yellow);
+  const signedPercent = (value: number) => `${value >= 0 ? "+" : ""}${(value * 100).toFixed(2)}%`;
+
+  console.log(
+    `  ${style(truncate(label, 25).padEnd(26))}${String(stats.trades).padStart(7)}${percent(stats.hit_rate).padStart(7)}` +
+      `${returnColor(stats.avg_return)(signedPercent(stats.avg_return).padStart(9))}${returnColor(stats.total_return)(signedPercent(stats.total_return).padStart(9))}` +
+      `${stats.sharpe.toFixed(2).padStart(8)}${`${(stats.max_drawdown * 100).toFixed(1)}%`.padStart(9)}`
+  );
+}
+
+/**
+ * Print what a migration did (or would do, for --dry-run)
+ */
+function printMigration(report: MigrationReport) {
+  const written = report.total - report.rejected.length;
+
+  console.log(chalk.bold(`\n${report.file}`));
+  console.log(`  Records:   ${report.total}`);
+  console.log(`  Upgraded:  ${report.upgraded}`);
+  console.log(`  Current:   ${report.current}`);
+  console.log(`  Rejected:  ${report.rejected.length > 0 ? chalk.red(report.rejected.length) : 0}`);
+  report.rejected.forEach(({ line, error }) => console.log(chalk.red(`    line ${line}: ${error}`)));
+
+  if (!report.output) {
+    console.log(chalk.yellow("\nDry run - nothing written"));
+    return;
+  }
+  if (report.backup) {
+    console.log(chalk.dim(`\nOriginal kept at ${report.backup}`));
+  }
+  if (report.rejectedFile) {
+    console.log(chalk.yellow(`Rejected records kept verbatim in ${report.rejectedFile} - fix and migrate them separately`));
+  }
+  console.log(chalk.green(`\n✓ Wrote ${written} signal${written === 1 ? "" : "s"} to ${report.output}`));
+}
+
+/**
+ * Report lines the store could not read (on stderr, so --json output stays clean)
+ */
+function warnCorrupt(file: string, corrupt: CorruptLine[]) {
+  if (corrupt.length === 0) {
+    return;
+  }
+
+  console.error(chalk.yellow(`\n⚠ ${corrupt.length} unreadable line${corrupt.length === 1 ? "" : "s"} in ${file} (left untouched):`));
+  corrupt.slice(0, 5).forEach((c) => console.error(chalk.dim(`  line ${c.line}: ${c.error} - ${c.text}`)));
+  if (corrupt.length > 5) {
+    console.error(chalk.dim(`  ... and ${corrupt.length - 5} more`));
+  }
+}
+
+/** Column widths for the side-by-side table */
+const LABEL_WIDTH = 16;
+const COLUMN_WIDTH = 14;
+
+/**
+ * Print one table row, padding by visible width so colours don't shift columns
+ */
+function printRow(label: string, left: string, right: string) {
+  const pad = (text: string, width: number) => text + " ".repeat(Math.max(1, width - visibleLength(text)));
+  console.log(`  ${pad(label, LABEL_WIDTH)}${pad(left, COLUMN_WIDTH)}${right}`);
+}
+
+/** Length of text without ANSI colour codes */
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[[0-9;]*m/g, "").length;
+}
+
+/** 0.725 -> "73%" */
+function percent(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+/** Signed score, e.g. "+0.52" */
+function formatScore(score: number): string {
+  return `${score >= 0 ? "+" : ""}${score.toFixed(2)}`;
+}
+
+/** Upper-cased, coloured sentiment (or "-" when the provider was left out) */
+function colorSentiment(sentiment: string | undefined): string {
+  return sentiment ? getSignalColor(sentiment as ConsensusSignal)(sentiment.toUpperCase()) : "-";
+}
+
+/**
+ * Get chalk color function based on signal
+ */
+function getSignalColor(signal: ConsensusSignal) {
+  switch (signal) {
+    case "bullish":
+      return chalk.green;
+    case "bearish":
+      return chalk.red;
+    case "conflict":
+      return chalk.magenta;
+    default:
+      return chalk.yellow;
+  }
+}
+
+/**
+ * Shorten text to fit a table column
+ */
+function truncate(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/**
+ * Parse a --since/--until value
+ * A bare date as an end bound means the end of that day (UTC).
+ */
+function parseDate(value: string, flag: string, endOfDay = false): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${flag} must be a date like 2026-01-31 (got "${value}")`);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * Parse a numeric option that must be >= 0
+ */
+function parseNonNegative(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new Error(`${flag} must be a number >= 0 (got "${value}")`);
+  }
+  return n;
+}
+
+/**
+ * Print an error (with a hint for known API failures) and exit
+ */
+function exitWithError(error: unknown): never {
+  console.error(chalk.red("Error:"), redactSecrets(error instanceof Error ? error.message : String(error)));
+
+  const provider = error instanceof ApiError ? providerLabel(error.provider) : "";
+  if (error instanceof AuthError) {
+    console.error(chalk.dim(`Hint: check ${apiKeyEnvVar(error.provider)} in .envrc or .ai-tools/config.json`));
+  } else if (error instanceof RateLimitError) {
+    console.error(chalk.dim(`Hint: rate limited by ${provider} (on every configured key) - wait a minute and try again`));
+  } else if (error instanceof ServerError || error instanceof NetworkError) {
+    console.error(chalk.dim(`Hint: ${provider} is unreachable or overloaded - try again later`));
+  } else if (error instanceof UnusableResponseError || error instanceof SchemaValidationError) {
+    console.error(chalk.dim("Hint: Gemini gave no usable analysis, so there is no consensus - try again"));
+  } else if (error instanceof BudgetExceededError) {
+    console.error(chalk.dim("Hint: raise AI_TOOLS_{DAILY,MONTHLY}_BUDGET_USD or check ./perplexity usage"));
+  } else if (error instanceof SignalStoreLockError) {
+    console.error(chalk.dim("Hint: another run is writing signals - retry in a moment"));
+  } else if (error instanceof PriceDataError) {
+    console.error(chalk.dim("Hint: price files must be CSV or Parquet with timestamp, open, high, low, close (and optionally volume) columns"));
+  } else if (error instanceof CorruptSignalFileError) {
+    console.error(chalk.dim(`Hint: ./signals migrate ${error.file} --dry-run shows which records are the problem`));
+  }
+
+  process.exit(1);
+}
+
+program.parse(process.argv);
+
+if (process.argv.length <= 2) {
+  program.help();
+}